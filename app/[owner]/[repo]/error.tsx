@@ -0,0 +1,26 @@
+// FILE: app/[owner]/[repo]/error.tsx
+"use client";
+
+import ErrorScreen from "@/components/ErrorScreen";
+
+// Catches network failures and GitHub 5xx responses that survived retries
+export default function RepoError({
+  error,
+  reset,
+}: {
+  error: Error & { digest?: string };
+  reset: () => void;
+}) {
+  return (
+    <ErrorScreen
+      alert="offline"
+      title="GitHub is unreachable"
+      message={
+        error.digest
+          ? `The GitHub API did not respond properly (ref ${error.digest}). This is usually temporary.`
+          : "The GitHub API did not respond properly. This is usually temporary."
+      }
+      onRetry={reset}
+    />
+  );
+}
@@ -0,0 +1,18 @@
+// FILE: app/[owner]/[repo]/not-found.tsx
+
+import ErrorScreen from "@/components/ErrorScreen";
+import { oauthConfigured } from "@/lib/viewer-session";
+
+// Rendered when GitHub answers 404 for the requested repository
+export default function RepoNotFound() {
+  const hint = oauthConfigured()
+    ? "or it is private and not visible to you — sign in with GitHub under Settings on any dashboard to open your private repos"
+    : "or it is private and the configured token cannot see it";
+  return (
+    <ErrorScreen
+      alert="not-found"
+      title="Repository not found"
+      message={`GitHub has no repository at this address, ${hint}. Check the owner/repo spelling and try again.`}
+    />
+  );
+}
@@ -0,0 +1,90 @@
+// FILE: app/api/auth/callback/route.ts
+
+export const runtime = "edge";
+
+import { NextResponse, type NextRequest } from "next/server";
+import { ghFetch } from "@/lib/github-transport";
+import {
+  OAUTH_STATE_COOKIE,
+  SESSION_COOKIE,
+  SESSION_MAX_AGE_SECONDS,
+  cookieOptions,
+  oauthConfigured,
+  safeReturnTo,
+  sealSession,
+} from "@/lib/viewer-session";
+
+interface TokenResponse {
+  access_token?: string;
+  scope?: string; // Comma-separated, as granted
+  error?: string;
+  error_description?: string;
+}
+
+function readState(value: string | undefined): { state: string; returnTo: string } | null {
+  try {
+    const parsed = value ? JSON.parse(value) : null;
+    return typeof parsed?.state === "string"
+      ? { state: parsed.state, returnTo: safeReturnTo(parsed.returnTo) }
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+// GitHub redirects here with ?code&state; swaps the code for a token and
+// seals it into the session cookie
+export async function GET(request: NextRequest) {
+  if (!oauthConfigured()) {
+    return NextResponse.json({ message: "GitHub sign-in is not configured" }, { status: 404 });
+  }
+
+  const params = request.nextUrl.searchParams;
+  const expected = readState(request.cookies.get(OAUTH_STATE_COOKIE)?.value);
+  if (!expected || params.get("state") !== expected.state) {
+    return NextResponse.json({ message: "Sign-in state mismatch — start again" }, { status: 400 });
+  }
+
+  const back = NextResponse.redirect(new URL(expected.returnTo, request.nextUrl.origin));
+  back.cookies.delete({ name: OAUTH_STATE_COOKIE, path: cookieOptions.path });
+
+  // Declined on GitHub's consent screen: return as an anonymous viewer
+  const code = params.get("code");
+  if (!code) return back;
+
+  try {
+    const exchange = await fetch("https://github.com/login/oauth/access_token", {
+      method: "POST",
+      headers: { Accept: "application/json", "Content-Type": "application/json" },
+      body: JSON.stringify({
+        client_id: process.env.GITHUB_OAUTH_CLIENT_ID,
+        client_secret: process.env.GITHUB_OAUTH_CLIENT_SECRET,
+        code,
+        redirect_uri: `${request.nextUrl.origin}/api/auth/callback`,
+      }),
+    });
+    const grant = (await exchange.json()) as TokenResponse;
+    if (!grant.access_token) {
+      console.error("[NexusPulse] OAuth code exchange failed:", grant.error ?? exchange.status);
+      return NextResponse.json(
+        { message: grant.error_description ?? "GitHub did not issue a token" },
+        { status: 502 }
+      );
+    }
+
+    const session = { token: grant.access_token, rateLimit: null, quotaResource: "core" };
+    const user = await ghFetch<{ login: string }>("/user", session);
+
+    const sealed = await sealSession({
+      token: grant.access_token,
+      login: user.login,
+      scopes: (grant.scope ?? "").split(",").map((s) => s.trim()).filter(Boolean),
+      signedInAt: new Date().toISOString(),
+    });
+    back.cookies.set(SESSION_COOKIE, sealed, { ...cookieOptions, maxAge: SESSION_MAX_AGE_SECONDS });
+    return back;
+  } catch (error) {
+    console.error("[NexusPulse] OAuth sign-in failed:", error);
+    return NextResponse.json({ message: "Sign-in with GitHub failed" }, { status: 502 });
+  }
+}
@@ -0,0 +1,39 @@
+// FILE: app/api/auth/login/route.ts
+
+export const runtime = "edge";
+
+import { NextResponse, type NextRequest } from "next/server";
+import {
+  OAUTH_SCOPES,
+  OAUTH_STATE_COOKIE,
+  OAUTH_STATE_MAX_AGE_SECONDS,
+  cookieOptions,
+  oauthConfigured,
+  safeReturnTo,
+} from "@/lib/viewer-session";
+
+// Starts GitHub sign-in: /api/auth/login?returnTo=/owner/repo. The state
+// cookie carries the CSRF nonce and where to land afterwards.
+export function GET(request: NextRequest) {
+  if (!oauthConfigured()) {
+    return NextResponse.json({ message: "GitHub sign-in is not configured" }, { status: 404 });
+  }
+
+  const state = Array.from(crypto.getRandomValues(new Uint8Array(16)), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+  const returnTo = safeReturnTo(request.nextUrl.searchParams.get("returnTo"));
+
+  const authorize = new URL("https://github.com/login/oauth/authorize");
+  authorize.searchParams.set("client_id", process.env.GITHUB_OAUTH_CLIENT_ID!);
+  authorize.searchParams.set("redirect_uri", `${request.nextUrl.origin}/api/auth/callback`);
+  authorize.searchParams.set("scope", OAUTH_SCOPES);
+  authorize.searchParams.set("state", state);
+
+  const response = NextResponse.redirect(authorize);
+  response.cookies.set(OAUTH_STATE_COOKIE, JSON.stringify({ state, returnTo }), {
+    ...cookieOptions,
+    maxAge: OAUTH_STATE_MAX_AGE_SECONDS,
+  });
+  return response;
+}
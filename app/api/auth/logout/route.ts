@@ -0,0 +1,18 @@
+// FILE: app/api/auth/logout/route.ts
+
+export const runtime = "edge";
+
+import { NextResponse, type NextRequest } from "next/server";
+import { SESSION_COOKIE, cookieOptions, safeReturnTo } from "@/lib/viewer-session";
+
+// POST only, from the Settings form, so a stray link cannot sign anyone out.
+// The token stays valid on GitHub until revoked there.
+export async function POST(request: NextRequest) {
+  const form = await request.formData().catch(() => null);
+  const returnTo = safeReturnTo(form?.get("returnTo")?.toString());
+
+  // 303 turns the POST into a GET of the dashboard
+  const response = NextResponse.redirect(new URL(returnTo, request.nextUrl.origin), 303);
+  response.cookies.delete({ name: SESSION_COOKIE, path: cookieOptions.path });
+  return response;
+}
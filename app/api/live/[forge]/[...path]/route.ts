@@ -0,0 +1,139 @@
+// FILE: app/api/live/[forge]/[...path]/route.ts
+
+export const runtime = "edge";
+
+import type { NextRequest } from "next/server";
+import type { FullDashboardData, GitHubRepo } from "@/lib/github-client";
+import { getDashboardData, isCacheable } from "@/lib/dashboard-cache";
+import { FORGE_PROVIDERS, type ForgeKind } from "@/lib/forge-provider";
+import { diffDashboards, formatLiveEvent } from "@/lib/live-updates";
+import { resolveScoringProfile } from "@/lib/scoring-profiles";
+import { readViewerSession } from "@/lib/viewer-session";
+import { computeVitality } from "@/lib/vitality-engine";
+
+// Server-Sent Events for one dashboard, addressed like its page:
+//
+//   /api/live/github/owner/repo
+//   /api/live/gitlab/group/…/project
+//   /api/live/gitea/host/owner/repo
+//   /api/live/local/name
+//
+// ?since= is the fetchedAt of the snapshot the page rendered; a newer one
+// on connect is announced with a report event. ?profile= is the page's
+// scoring profile, so recomputed reports use the same formula.
+
+const SHARED_POLL_SECONDS = 30;   // Snapshots come from KV, so polling is cheap
+const UPSTREAM_POLL_SECONDS = 300; // Every load hits the forge: match the page's revalidate
+const KEEPALIVE_SECONDS = 25;     // Proxies (Cloudflare: 100s) drop idle connections
+const STREAM_SECONDS = 15 * 60;   // Then close; EventSource reconnects on its own
+const RECONNECT_MS = 5000;
+
+interface RouteContext {
+  params: { forge: string; path: string[] };
+}
+
+function liveTarget(forge: ForgeKind, path: string[]): GitHubRepo | null {
+  switch (forge) {
+    case "github":
+      return path.length === 2 ? { owner: path[0], repo: path[1] } : null;
+    case "gitlab":
+      return path.length >= 2 ? { owner: path.slice(0, -1).join("/"), repo: path[path.length - 1] } : null;
+    case "gitea":
+      return path.length === 3 ? { host: path[0].toLowerCase(), owner: path[1], repo: path[2] } : null;
+    case "local":
+      return path.length === 1 ? { owner: "local", repo: path[0] } : null;
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Whether the next reload will likely be answered from KV
+function servedFromCache(data: FullDashboardData): boolean {
+  const status = data.cache?.status;
+  return status === "hit" || status === "stale" || (status === "miss" && isCacheable(data));
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const forge = params.forge as ForgeKind;
+  const provider = FORGE_PROVIDERS[forge];
+  const target = provider && liveTarget(forge, params.path.map(decodeURIComponent));
+  if (!target) return new Response("Unknown dashboard", { status: 404 });
+
+  // Same credentials as the page the viewer is looking at
+  const viewer = forge === "github" ? await readViewerSession() : null;
+  const options = { viewerToken: viewer?.token };
+  const vitalityOptions = {
+    communityTerm: process.env.VITALITY_COMMUNITY_TERM === "true",
+    profile: resolveScoringProfile(
+      forge,
+      target,
+      request.nextUrl.searchParams.get("profile") ?? undefined
+    ),
+  };
+
+  const encoder = new TextEncoder();
+  const deadline = Date.now() + STREAM_SECONDS * 1000;
+  let seen = request.nextUrl.searchParams.get("since");
+  let previous: FullDashboardData | null = null;
+  let nextReloadAt = Date.now();
+  let closed = false;
+
+  // Each pull waits at most one keep-alive interval and always enqueues
+  // something, so pulls never spin and the next waits for the consumer
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(`retry: ${RECONNECT_MS}\n\n`));
+    },
+
+    async pull(controller) {
+      const wait = Math.min(nextReloadAt - Date.now(), KEEPALIVE_SECONDS * 1000);
+      if (wait > 0) await sleep(wait);
+      if (closed) return;
+      if (Date.now() >= deadline) {
+        controller.close();
+        return;
+      }
+      if (Date.now() < nextReloadAt) {
+        controller.enqueue(encoder.encode(": keep-alive\n\n"));
+        return;
+      }
+
+      let chunk = "";
+      let pollSeconds = UPSTREAM_POLL_SECONDS;
+      try {
+        const data = await getDashboardData(provider, target, options);
+        if (servedFromCache(data)) pollSeconds = SHARED_POLL_SECONDS;
+
+        // The first reload is only a baseline: the page shows its activity
+        if (data.fetchedAt !== seen) {
+          if (previous) chunk = diffDashboards(previous, data).map(formatLiveEvent).join("");
+          chunk += formatLiveEvent({
+            type: "report",
+            report: computeVitality(data.metrics, { ...vitalityOptions, sources: data.sources }),
+            dashboard: data,
+          });
+          seen = data.fetchedAt;
+        }
+        previous = data;
+      } catch (error) {
+        // Errors stay on the page that loaded; the stream just tries again
+        console.error("[NexusPulse] Live reload failed:", error);
+      }
+      nextReloadAt = Date.now() + pollSeconds * 1000;
+      if (!closed) controller.enqueue(encoder.encode(chunk || ": keep-alive\n\n"));
+    },
+
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+    },
+  });
+}
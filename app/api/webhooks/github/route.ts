@@ -0,0 +1,63 @@
+// FILE: app/api/webhooks/github/route.ts
+
+export const runtime = "edge";
+
+import { NextResponse, type NextRequest } from "next/server";
+import { invalidateDashboard } from "@/lib/dashboard-cache";
+import {
+  INVALIDATING_EVENTS,
+  verifyWebhookSignature,
+  webhookTarget,
+  type WebhookPayload,
+} from "@/lib/github-webhooks";
+
+// GitHub webhook receiver: set the payload URL to /api/webhooks/github,
+// content type application/json, and the same secret as
+// GITHUB_WEBHOOK_SECRET. Deliveries are acknowledged with a small JSON note
+// that GitHub shows under Recent Deliveries.
+export async function POST(request: NextRequest) {
+  const secret = process.env.GITHUB_WEBHOOK_SECRET;
+  if (!secret) {
+    return NextResponse.json({ message: "Webhooks are not configured" }, { status: 404 });
+  }
+
+  // The HMAC covers the exact bytes GitHub sent
+  const body = new Uint8Array(await request.arrayBuffer());
+  const signed = await verifyWebhookSignature(
+    secret,
+    body,
+    request.headers.get("x-hub-signature-256")
+  );
+  if (!signed) {
+    return NextResponse.json({ message: "Signature does not match" }, { status: 401 });
+  }
+
+  const event = request.headers.get("x-github-event") ?? "";
+  const delivery = request.headers.get("x-github-delivery");
+  if (event === "ping") return NextResponse.json({ message: "pong", delivery });
+  if (!INVALIDATING_EVENTS.has(event)) {
+    return NextResponse.json({ message: `Ignored ${event || "unnamed"} event`, delivery });
+  }
+
+  let payload: WebhookPayload;
+  try {
+    payload = JSON.parse(new TextDecoder().decode(body));
+  } catch {
+    return NextResponse.json({ message: "Payload is not JSON" }, { status: 400 });
+  }
+
+  const target = webhookTarget(payload);
+  if (!target) {
+    return NextResponse.json({ message: `No repository in ${event} event`, delivery });
+  }
+
+  try {
+    await invalidateDashboard("github", target);
+  } catch (error) {
+    // 500 makes the delivery show as failed, ready to redeliver
+    console.error("[NexusPulse] Webhook invalidation failed:", error);
+    return NextResponse.json({ message: "Cache invalidation failed" }, { status: 500 });
+  }
+
+  return NextResponse.json({ message: `Invalidated ${target.owner}/${target.repo}`, event, delivery });
+}
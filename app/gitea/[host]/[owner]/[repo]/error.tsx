@@ -0,0 +1,26 @@
+// FILE: app/gitea/[host]/[owner]/[repo]/error.tsx
+"use client";
+
+import ErrorScreen from "@/components/ErrorScreen";
+
+// Catches network failures and 5xx responses from the instance that survived retries
+export default function GiteaRepoError({
+  error,
+  reset,
+}: {
+  error: Error & { digest?: string };
+  reset: () => void;
+}) {
+  return (
+    <ErrorScreen
+      alert="offline"
+      title="Instance is unreachable"
+      message={
+        error.digest
+          ? `The Gitea instance did not respond properly (ref ${error.digest}). This is usually temporary.`
+          : "The Gitea instance did not respond properly. This is usually temporary."
+      }
+      onRetry={reset}
+    />
+  );
+}
@@ -0,0 +1,14 @@
+// FILE: app/gitea/[host]/[owner]/[repo]/not-found.tsx
+
+import ErrorScreen from "@/components/ErrorScreen";
+
+// Rendered for a 404 from the instance, or a host missing from GITEA_INSTANCES
+export default function GiteaRepoNotFound() {
+  return (
+    <ErrorScreen
+      alert="not-found"
+      title="Repository not found"
+      message="The instance has no repository at this address, it is private and the configured token cannot see it, or the host is not listed in GITEA_INSTANCES. Check the host and owner/repo spelling and try again."
+    />
+  );
+}
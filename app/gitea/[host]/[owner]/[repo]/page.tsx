@@ -0,0 +1,48 @@
+// FILE: app/gitea/[host]/[owner]/[repo]/page.tsx
+
+export const runtime = "edge";
+export const revalidate = 300;
+
+import type { Metadata } from "next";
+import ForgeDashboard from "@/components/ForgeDashboard";
+
+// ── TYPES ─────────────────────────────────────────────────────────────────────
+interface PageProps {
+  params: {
+    host: string; // Must be listed in GITEA_INSTANCES (codeberg.org is built in)
+    owner: string;
+    repo: string;
+  };
+  searchParams: {
+    scenario?: string | string[]; // Mock scenario, see lib/mock-scenarios
+    profile?: string | string[];  // Scoring profile, see lib/scoring-profiles
+  };
+}
+
+// ── DYNAMIC METADATA ──────────────────────────────────────────────────────────
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { host, owner, repo } = params;
+  return {
+    title: `${owner}/${repo} on ${host} — NexusPulse OS`,
+    description: `Live community health dashboard for ${owner}/${repo} on ${host}. Vitality scoring, contributor analytics, and project momentum tracking.`,
+    openGraph: {
+      title: `${owner}/${repo} on ${host} — NexusPulse OS`,
+      description: `Real-time vitality dashboard for the ${repo} repository.`,
+      type: "website",
+    },
+  };
+}
+
+// ── ROOT PAGE ─────────────────────────────────────────────────────────────────
+export default function GiteaRepoPage({ params, searchParams }: PageProps) {
+  return (
+    <ForgeDashboard
+      forge="gitea"
+      host={params.host}
+      owner={params.owner}
+      repo={params.repo}
+      scenario={searchParams.scenario}
+      profile={searchParams.profile}
+    />
+  );
+}
@@ -0,0 +1,26 @@
+// FILE: app/gitlab/[...path]/error.tsx
+"use client";
+
+import ErrorScreen from "@/components/ErrorScreen";
+
+// Catches network failures and GitLab 5xx responses that survived retries
+export default function GitLabProjectError({
+  error,
+  reset,
+}: {
+  error: Error & { digest?: string };
+  reset: () => void;
+}) {
+  return (
+    <ErrorScreen
+      alert="offline"
+      title="GitLab is unreachable"
+      message={
+        error.digest
+          ? `The GitLab API did not respond properly (ref ${error.digest}). This is usually temporary.`
+          : "The GitLab API did not respond properly. This is usually temporary."
+      }
+      onRetry={reset}
+    />
+  );
+}
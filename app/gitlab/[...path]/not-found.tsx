@@ -0,0 +1,14 @@
+// FILE: app/gitlab/[...path]/not-found.tsx
+
+import ErrorScreen from "@/components/ErrorScreen";
+
+// Rendered when GitLab answers 404 for the requested project
+export default function GitLabProjectNotFound() {
+  return (
+    <ErrorScreen
+      alert="not-found"
+      title="Project not found"
+      message="GitLab has no project at this address, or it is private and the configured token cannot see it. Check the group/project path and try again."
+    />
+  );
+}
@@ -0,0 +1,55 @@
+// FILE: app/gitlab/[...path]/page.tsx
+
+export const runtime = "edge";
+export const revalidate = 300;
+
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import ForgeDashboard from "@/components/ForgeDashboard";
+
+// ── TYPES ─────────────────────────────────────────────────────────────────────
+interface PageProps {
+  params: {
+    path: string[]; // group/…/project — GitLab namespaces nest
+  };
+  searchParams: {
+    scenario?: string | string[]; // Mock scenario, see lib/mock-scenarios
+    profile?: string | string[];  // Scoring profile, see lib/scoring-profiles
+  };
+}
+
+// The last segment is the project, everything before it the namespace
+function splitProjectPath(path: string[]): { owner: string; repo: string } | null {
+  if (path.length < 2) return null;
+  return { owner: path.slice(0, -1).join("/"), repo: path[path.length - 1] };
+}
+
+// ── DYNAMIC METADATA ──────────────────────────────────────────────────────────
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const fullPath = params.path.join("/");
+  return {
+    title: `${fullPath} — NexusPulse OS`,
+    description: `Live community health dashboard for the GitLab project ${fullPath}. Vitality scoring, contributor analytics, and project momentum tracking.`,
+    openGraph: {
+      title: `${fullPath} — NexusPulse OS`,
+      description: `Real-time vitality dashboard for the ${params.path[params.path.length - 1]} project.`,
+      type: "website",
+    },
+  };
+}
+
+// ── ROOT PAGE ─────────────────────────────────────────────────────────────────
+export default function GitLabProjectPage({ params, searchParams }: PageProps) {
+  const target = splitProjectPath(params.path);
+  if (!target) notFound();
+
+  return (
+    <ForgeDashboard
+      forge="gitlab"
+      owner={target.owner}
+      repo={target.repo}
+      scenario={searchParams.scenario}
+      profile={searchParams.profile}
+    />
+  );
+}
@@ -0,0 +1,26 @@
+// FILE: app/local/[repo]/error.tsx
+"use client";
+
+import ErrorScreen from "@/components/ErrorScreen";
+
+// Catches an unreachable git log server, or git failing inside it
+export default function LocalRepoError({
+  error,
+  reset,
+}: {
+  error: Error & { digest?: string };
+  reset: () => void;
+}) {
+  return (
+    <ErrorScreen
+      alert="offline"
+      title="Git log server is unreachable"
+      message={
+        error.digest
+          ? `The local git log server did not respond properly (ref ${error.digest}). Check that it is running — npm run local-git -- <repo-dir>.`
+          : "The local git log server did not respond properly. Check that it is running — npm run local-git -- <repo-dir>."
+      }
+      onRetry={reset}
+    />
+  );
+}
@@ -0,0 +1,14 @@
+// FILE: app/local/[repo]/not-found.tsx
+
+import ErrorScreen from "@/components/ErrorScreen";
+
+// Rendered when the git log server does not serve a repository by this name
+export default function LocalRepoNotFound() {
+  return (
+    <ErrorScreen
+      alert="not-found"
+      title="Repository not found"
+      message="The git log server does not serve a repository by this name. Repositories are served under their directory name — check the list it printed on startup."
+    />
+  );
+}
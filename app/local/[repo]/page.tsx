@@ -0,0 +1,43 @@
+// FILE: app/local/[repo]/page.tsx
+
+export const runtime = "edge";
+export const revalidate = 300;
+
+import type { Metadata } from "next";
+import ForgeDashboard from "@/components/ForgeDashboard";
+
+// ── TYPES ─────────────────────────────────────────────────────────────────────
+interface PageProps {
+  params: {
+    repo: string; // Directory name the git log server serves it under
+  };
+  searchParams: {
+    profile?: string | string[]; // Scoring profile, see lib/scoring-profiles
+  };
+}
+
+// ── DYNAMIC METADATA ──────────────────────────────────────────────────────────
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { repo } = params;
+  return {
+    title: `${repo} (local) — NexusPulse OS`,
+    description: `Offline vitality dashboard for the local ${repo} checkout, scored from its git history.`,
+    openGraph: {
+      title: `${repo} (local) — NexusPulse OS`,
+      description: `Offline vitality dashboard for the ${repo} repository.`,
+      type: "website",
+    },
+  };
+}
+
+// ── ROOT PAGE ─────────────────────────────────────────────────────────────────
+export default function LocalRepoPage({ params, searchParams }: PageProps) {
+  return (
+    <ForgeDashboard
+      forge="local"
+      owner="local"
+      repo={params.repo}
+      profile={searchParams.profile}
+    />
+  );
+}
@@ -4,30 +4,74 @@
 import { useState, useEffect, useRef, useCallback } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { useRouter } from "next/navigation";
-import MascotCanvas from "./MascotCanvas";
+import MascotCanvas, { type MascotMood } from "./MascotCanvas";
 import MetricGrid from "./MetricGrid";
-import HistoryScroll from "./HistoryScroll";
+import HistoryScroll, { timelineKey } from "./HistoryScroll";
+import PRBacklog from "./PRBacklog";
+import NewcomersPanel from "./NewcomersPanel";
 import BottomNav, { type NavTab } from "./BottomNav";
-import { relativeTime, type VitalityReport } from "@/lib/vitality-engine";
-import type { FullDashboardData } from "@/lib/github-client";
+import {
+  formatFormula,
+  relativeTime,
+  STATE_CONFIGS,
+  type VitalityReport,
+} from "@/lib/vitality-engine";
+import type {
+  AuthorCommits,
+  CacheInfo,
+  FullDashboardData,
+  DailyCommitBucket,
+  DataSource,
+  ForgeKind,
+  Issue,
+  RateLimitInfo,
+  StalePolicy,
+} from "@/lib/github-client";
+import type { ActivityEvent, LiveEvent } from "@/lib/live-updates";
+import type { Viewer } from "@/lib/viewer-session";
 
 interface DashboardClientProps {
   data: FullDashboardData;
   report: VitalityReport;
   currentOwner: string;
   currentRepo: string;
+  currentHost?: string; // Instance hostname on self-hosted forges
+  viewer: Viewer | null; // Signed-in GitHub viewer, see lib/viewer-session
+  signInAvailable: boolean;
 }
 
 // ── REPO SEARCH BAR ───────────────────────────────────────────────────────────
+// Maps a typed "[host/]owner/repo" onto a dashboard route. github.com and
+// gitlab.com pick those forges, any other host is taken to be a Gitea
+// instance; without a host the search stays where it is.
+function searchTarget(
+  input: string,
+  forge: ForgeKind,
+  host: string | undefined
+): { forge: ForgeKind; host: string | undefined; parts: string[] } {
+  const prefix = input.match(/^(?:https?:\/\/)?([a-z0-9-]+(?:\.[a-z0-9-]+)+)\//i);
+  const parts = input.slice(prefix?.[0].length ?? 0).split("/").filter(Boolean);
+  if (!prefix) return { forge, host, parts };
+
+  const typedHost = prefix[1].toLowerCase();
+  if (typedHost === "github.com") return { forge: "github", host: undefined, parts };
+  if (typedHost === "gitlab.com") return { forge: "gitlab", host: undefined, parts };
+  return { forge: "gitea", host: typedHost, parts };
+}
+
 function RepoSearchBar({
+  forge,
   currentOwner,
   currentRepo,
+  currentHost,
   glowColor,
   onNavigate,
   compact = false,
 }: {
+  forge: ForgeKind;
   currentOwner: string;
   currentRepo: string;
+  currentHost?: string;
   glowColor: string;
   onNavigate: () => void;
   compact?: boolean;
@@ -48,11 +92,11 @@ function RepoSearchBar({
     (e?: React.FormEvent) => {
       e?.preventDefault();
 
-      const trimmed = inputValue.trim().replace(/^github\.com\//i, "");
-      const parts = trimmed.split("/").filter(Boolean);
+      const target = searchTarget(inputValue.trim(), forge, currentHost);
+      const { parts } = target;
 
       if (parts.length < 2) {
-        setError("Use format: owner/repo");
+        setError(target.forge === "gitlab" ? "Use format: group/project" : "Use format: owner/repo");
         inputRef.current?.focus();
         return;
       }
@@ -68,9 +112,15 @@ function RepoSearchBar({
       setError(null);
       setIsNavigating(true);
       onNavigate();
-      router.push(`/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`);
+      router.push(
+        target.forge === "gitlab"
+          ? `/gitlab/${parts.map(encodeURIComponent).join("/")}`
+          : target.forge === "gitea"
+          ? `/gitea/${target.host}/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`
+          : `/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`
+      );
     },
-    [inputValue, router, onNavigate]
+    [inputValue, forge, currentHost, router, onNavigate]
   );
 
   return (
@@ -108,8 +158,8 @@ function RepoSearchBar({
           }}
           onFocus={() => setIsFocused(true)}
           onBlur={() => setIsFocused(false)}
-          placeholder="owner/repo"
-          aria-label="Enter GitHub owner/repo"
+          placeholder={forge === "gitlab" ? "group/project" : "owner/repo"}
+          aria-label={forge === "gitlab" ? "Enter GitLab group/project" : "Enter GitHub owner/repo"}
           className={`
             flex-1 bg-transparent outline-none px-2 text-pulse-pure placeholder-pulse-muted
             font-mono
@@ -176,6 +226,7 @@ function DesktopSidebar({
   onTabChange,
   currentOwner,
   currentRepo,
+  currentHost,
 }: {
   data: FullDashboardData;
   report: VitalityReport;
@@ -183,6 +234,7 @@ function DesktopSidebar({
   onTabChange: (t: NavTab) => void;
   currentOwner: string;
   currentRepo: string;
+  currentHost?: string;
 }) {
   const { stateConfig } = report;
   const glowColor = stateConfig.glowColor;
@@ -207,8 +259,10 @@ function DesktopSidebar({
           <p className="text-xs text-pulse-muted mt-0.5">Edge Community Dashboard</p>
         </div>
         <RepoSearchBar
+          forge={data.forge}
           currentOwner={currentOwner}
           currentRepo={currentRepo}
+          currentHost={currentHost}
           glowColor={glowColor}
           onNavigate={() => {}}
         />
@@ -219,7 +273,7 @@ function DesktopSidebar({
           animate={{ y: [0, -10, 0] }}
           transition={{ duration: 4, repeat: Infinity, ease: "easeInOut" }}
         >
-          <MascotCanvas report={report} size="orb" />
+          <MascotCanvas report={report} mood={mascotMood(data)} size="orb" />
         </motion.div>
 
         <div className="mt-5 text-center w-full">
@@ -236,11 +290,11 @@ function DesktopSidebar({
           </p>
           <div className="flex items-center justify-center gap-3 mt-3">
             <span className="text-xs text-pulse-ghost">
-              ⭐ {data.repo.stars.toLocaleString()}
+              ⭐ {data.sources.repo.ok ? data.repo.stars.toLocaleString() : "—"}
             </span>
             <span className="text-pulse-border">·</span>
             <span className="text-xs text-pulse-ghost">
-              🍴 {data.repo.forks.toLocaleString()}
+              🍴 {data.sources.repo.ok ? data.repo.forks.toLocaleString() : "—"}
             </span>
           </div>
         </div>
@@ -280,7 +334,7 @@ function DesktopSidebar({
       <div className="p-4 border-t border-pulse-border">
         {data.isMockData && (
           <div className="mb-2 text-xs p-2 rounded-lg bg-amber-400/10 border border-amber-400/20 text-amber-300">
-            ⚠ Mock data mode. Set GITHUB_TOKEN env var.
+            ⚠ Mock data mode. Set {liveDataSetting(data.forge)}.
           </div>
         )}
         <p className="text-xs text-pulse-muted">
@@ -297,11 +351,13 @@ function MobileHeader({
   report,
   currentOwner,
   currentRepo,
+  currentHost,
 }: {
   data: FullDashboardData;
   report: VitalityReport;
   currentOwner: string;
   currentRepo: string;
+  currentHost?: string;
 }) {
   const [searchOpen, setSearchOpen] = useState(false);
 
@@ -380,8 +436,10 @@ function MobileHeader({
           >
             <div className="px-4 pb-3">
               <RepoSearchBar
+                forge={data.forge}
                 currentOwner={currentOwner}
                 currentRepo={currentRepo}
+                currentHost={currentHost}
                 glowColor={report.stateConfig.glowColor}
                 onNavigate={() => setSearchOpen(false)}
               />
@@ -391,7 +449,7 @@ function MobileHeader({
       </AnimatePresence>
 
       <div className="flex flex-col items-center py-5 px-4">
-        <MascotCanvas report={report} size="hero" />
+        <MascotCanvas report={report} mood={mascotMood(data)} size="hero" />
         <motion.p
           className="text-xs text-pulse-ghost text-center mt-4 max-w-xs leading-relaxed px-4"
           initial={{ opacity: 0 }}
@@ -402,7 +460,7 @@ function MobileHeader({
         </motion.p>
         {data.isMockData && (
           <div className="mt-3 text-xs px-3 py-1.5 rounded-lg bg-amber-400/10 border border-amber-400/20 text-amber-300">
-            ⚠ Mock data — set GITHUB_TOKEN to go live
+            ⚠ Mock data — set {liveDataSetting(data.forge)} to go live
           </div>
         )}
       </div>
@@ -410,19 +468,228 @@ function MobileHeader({
   );
 }
 
+// Red-build overlay while the default branch's latest commits are failing
+function mascotMood(data: FullDashboardData): MascotMood | undefined {
+  return data.sources.ci.ok && data.ci.brokenStreak > 0 ? "red-build" : undefined;
+}
+
+// What each forge reads its credentials from; mock mode is the fallback
+function liveDataSetting(forge: ForgeKind): string {
+  switch (forge) {
+    case "github":
+      return "GITHUB_TOKEN";
+    case "gitlab":
+      return "GITLAB_TOKEN";
+    case "gitea":
+      return "a token in GITEA_INSTANCES";
+    case "local":
+      return "LOCAL_GIT_URL";
+  }
+}
+
+function describeDataSource(data: FullDashboardData): string {
+  if (data.isMockData) return "Mock (no token)";
+  const api =
+    data.forge === "gitlab"
+      ? "GitLab API v4"
+      : data.forge === "gitea"
+      ? "Gitea API v1"
+      : data.forge === "local"
+      ? "Local git log"
+      : data.backend === "graphql"
+      ? "GitHub GraphQL v4"
+      : "GitHub API v3";
+  // Sources the forge does not offer are left out of the count
+  const statuses = Object.values(data.sources).filter((s) => s.applicable);
+  const available = statuses.filter((s) => s.ok).length;
+  return available === statuses.length
+    ? api
+    : `${api} (partial ${available}/${statuses.length})`;
+}
+
+function describeCache(cache: CacheInfo | null): string {
+  if (!cache) return "—";
+  if (cache.status === "bypass") return `no cache binding · ${cache.ttlSeconds}s TTL`;
+  if (cache.status === "private") return "not shared · signed-in load";
+  return `${cache.status.toUpperCase()} · ${cache.ageSeconds}s old / ${cache.ttlSeconds}s TTL`;
+}
+
+function formatQuota(rateLimit: RateLimitInfo | null): string {
+  if (!rateLimit) return "—";
+  const resetTime = new Date(rateLimit.resetAt).toLocaleTimeString("en-US", {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+  return `${rateLimit.remaining.toLocaleString()} / ${rateLimit.limit.toLocaleString()} · resets ${resetTime}`;
+}
+
+// ── VIEWER CARD ───────────────────────────────────────────────────────────────
+// Who this GitHub dashboard loads as. The auth routes are route handlers, so
+// plain links and forms reach them rather than client navigation.
+function ViewerCard({ viewer, returnTo }: { viewer: Viewer | null; returnTo: string }) {
+  return (
+    <div className="glass-card p-4 sm:p-5">
+      <div className="section-header">
+        <span>🔑</span>
+        <h2
+          className="text-sm font-semibold text-pulse-pure"
+          style={{ fontFamily: "'Space Grotesk', sans-serif" }}
+        >
+          GitHub Account
+        </h2>
+      </div>
+      {viewer ? (
+        <>
+          <div className="space-y-3 text-sm">
+            {[
+              { label: "Signed in as", value: `@${viewer.login}` },
+              {
+                label: "Granted scopes",
+                value: viewer.scopes.length > 0 ? viewer.scopes.join(", ") : "none (public data only)",
+              },
+              { label: "Since", value: relativeTime(viewer.signedInAt) },
+            ].map(({ label, value }) => (
+              <div
+                key={label}
+                className="flex justify-between items-start gap-4 py-2 border-b border-pulse-border last:border-0"
+              >
+                <span className="text-pulse-muted flex-shrink-0">{label}</span>
+                <span className="font-mono text-xs text-pulse-ghost text-right" suppressHydrationWarning>
+                  {value}
+                </span>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-pulse-muted mt-4">
+            Dashboards load with your token and count against your own API quota.
+          </p>
+          <form action="/api/auth/logout" method="post" className="mt-3">
+            <input type="hidden" name="returnTo" value={returnTo} />
+            <button
+              type="submit"
+              className="px-4 py-2 rounded-xl text-xs font-semibold text-pulse-ghost border border-pulse-border hover:text-pulse-pure transition-colors"
+              style={{ fontFamily: "'Space Grotesk', sans-serif" }}
+            >
+              Sign out
+            </button>
+          </form>
+        </>
+      ) : (
+        <>
+          <p className="text-xs text-pulse-muted">
+            Sign in to open your private repositories and load with your own API quota
+            instead of the shared one.
+          </p>
+          <a
+            href={`/api/auth/login?returnTo=${encodeURIComponent(returnTo)}`}
+            className="inline-block mt-3 px-4 py-2 rounded-xl text-xs font-semibold text-pulse-ghost border border-pulse-border hover:text-pulse-pure transition-colors"
+            style={{ fontFamily: "'Space Grotesk', sans-serif" }}
+          >
+            Sign in with GitHub
+          </a>
+        </>
+      )}
+    </div>
+  );
+}
+
+// ── STALE POLICY CARD ─────────────────────────────────────────────────────────
+function StalePolicyCard({
+  policy,
+  issues,
+  staleCount,
+}: {
+  policy: StalePolicy;
+  issues: Issue[];
+  staleCount: number;
+}) {
+  const labelRules = Object.entries(policy.labelDays);
+  const staleIssues = issues.filter((issue) => issue.isStale);
+
+  return (
+    <div className="glass-card p-4 sm:p-5">
+      <div className="section-header">
+        <span>🧹</span>
+        <h2
+          className="text-sm font-semibold text-pulse-pure"
+          style={{ fontFamily: "'Space Grotesk', sans-serif" }}
+        >
+          Stale Policy
+        </h2>
+      </div>
+      <div className="space-y-3 text-sm">
+        {[
+          { label: "Default threshold", value: `${policy.defaultDays}d idle` },
+          {
+            label: "Label thresholds",
+            value:
+              labelRules.length > 0
+                ? labelRules.map(([label, days]) => `${label}: ${days}d`).join(" · ")
+                : "none",
+          },
+          {
+            label: "Exempt labels",
+            value: policy.exemptLabels.length > 0 ? policy.exemptLabels.join(", ") : "none",
+          },
+          {
+            label: "Exempt milestones",
+            value: policy.exemptMilestones.length > 0 ? policy.exemptMilestones.join(", ") : "none",
+          },
+        ].map(({ label, value }) => (
+          <div
+            key={label}
+            className="flex justify-between items-start gap-4 py-2 border-b border-pulse-border last:border-0"
+          >
+            <span className="text-pulse-muted flex-shrink-0">{label}</span>
+            <span className="font-mono text-xs text-pulse-ghost text-right">{value}</span>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-xs text-pulse-muted mt-4 mb-2">
+        {staleCount} open issue{staleCount === 1 ? "" : "s"} counted as stale
+        {staleIssues.length < staleCount ? ` · showing the ${staleIssues.length} most recent` : ""}
+      </p>
+      {staleIssues.length > 0 && (
+        <ul className="space-y-2">
+          {staleIssues.map((issue) => (
+            <li key={issue.number} className="text-xs">
+              <a
+                href={issue.url !== "#" ? issue.url : undefined}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-pulse-ghost hover:text-pulse-pure"
+              >
+                #{issue.number}: {issue.title}
+              </a>
+              <p className="font-mono mt-0.5" style={{ color: "#ff4069" }}>
+                {issue.staleReason}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
 // ── SETTINGS PANEL ────────────────────────────────────────────────────────────
 function SettingsPanel({
   data,
   report,
   currentOwner,
   currentRepo,
+  viewer,
+  signInAvailable,
 }: {
   data: FullDashboardData;
   report: VitalityReport;
   currentOwner: string;
   currentRepo: string;
+  viewer: Viewer | null;
+  signInAvailable: boolean;
 }) {
-  const { stateConfig, breakdown, score } = report;
+  const { stateConfig, breakdown, score, profile } = report;
 
   return (
     <div className="space-y-4">
@@ -439,13 +706,25 @@ function SettingsPanel({
         <div className="space-y-3 text-sm">
           {[
             { label: "Runtime", value: "Cloudflare Edge (V8)" },
+            { label: "Data source", value: describeDataSource(data) },
+            { label: "Cache TTL", value: describeCache(data.cache) },
+            { label: "API quota", value: formatQuota(data.rateLimit) },
+            { label: "Algorithm", value: "Vitality Engine v1.0" },
+            { label: "Scoring profile", value: profile.label },
             {
-              label: "Data source",
-              value: data.isMockData ? "Mock (no token)" : "GitHub API v3",
+              label: "Formula",
+              value: formatFormula(profile, {
+                communityTerm: breakdown.communityContribution !== null,
+                compact: true,
+              }),
+            },
+            { label: "100% at", value: `V = ${profile.maxExpectedScore}` },
+            {
+              label: "Thresholds",
+              value: (["recovering", "stable", "thriving", "supernova"] as const)
+                .map((state) => `${STATE_CONFIGS[state].emoji} ${profile.thresholds[state]}`)
+                .join(" · "),
             },
-            { label: "Cache TTL", value: "300 seconds" },
-            { label: "Algorithm", value: "Vitality Engine v1.0" },
-            { label: "Formula", value: "V = C×0.5 + P×0.3 − S×0.2" },
             { label: "Current repo", value: `${currentOwner}/${currentRepo}` },
           ].map(({ label, value }) => (
             <div
@@ -459,6 +738,60 @@ function SettingsPanel({
         </div>
       </div>
 
+      {(viewer || signInAvailable) && (
+        <ViewerCard
+          viewer={viewer}
+          returnTo={`/${encodeURIComponent(currentOwner)}/${encodeURIComponent(currentRepo)}`}
+        />
+      )}
+
+      {!data.isMockData && (
+        <div className="glass-card p-4 sm:p-5">
+          <div className="section-header">
+            <span>📡</span>
+            <h2
+              className="text-sm font-semibold text-pulse-pure"
+              style={{ fontFamily: "'Space Grotesk', sans-serif" }}
+            >
+              Data Sources
+            </h2>
+          </div>
+          <div className="space-y-3 text-sm">
+            {(Object.keys(data.sources) as DataSource[]).map((source) => {
+              const status = data.sources[source];
+              return (
+                <div
+                  key={source}
+                  className="flex justify-between items-start gap-4 py-2 border-b border-pulse-border last:border-0"
+                >
+                  <span className="text-pulse-muted capitalize">{source}</span>
+                  <span
+                    className="font-mono text-xs text-right break-all"
+                    style={{
+                      color: status.ok ? "#00ff9d" : status.applicable ? "#ff4069" : "#4a5080",
+                    }}
+                  >
+                    {status.ok
+                      ? "ok"
+                      : status.applicable
+                      ? `unavailable — ${status.error}`
+                      : `n/a — ${status.error}`}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {data.sources.issues.ok && (
+        <StalePolicyCard
+          policy={data.stalePolicy}
+          issues={data.recentIssues}
+          staleCount={data.metrics.staleIssues}
+        />
+      )}
+
       <div className="glass-card p-4 sm:p-5">
         <div className="section-header">
           <span>🎨</span>
@@ -501,12 +834,179 @@ function SettingsPanel({
             stale_penalty:{" "}
             <span style={{ color: "#ff4069" }}>-{breakdown.stalePenalty}</span>
           </div>
+          <div className="text-pulse-ghost">
+            stale_pr_penalty:{" "}
+            <span style={{ color: "#ff4069" }}>-{breakdown.stalePrPenalty}</span>
+          </div>
+          <div className="text-pulse-ghost">
+            responsiveness:{" "}
+            <span style={{ color: breakdown.responsiveness >= 0 ? "#00d4ff" : "#ff4069" }}>
+              {breakdown.responsiveness >= 0 ? "+" : ""}
+              {breakdown.responsiveness}
+            </span>
+          </div>
+          <div className="text-pulse-ghost">
+            release_contribution:{" "}
+            <span style={{ color: breakdown.releaseContribution >= 0 ? "#00d4ff" : "#ff4069" }}>
+              {breakdown.releaseContribution >= 0 ? "+" : ""}
+              {breakdown.releaseContribution}
+            </span>
+          </div>
+          {breakdown.communityContribution !== null && (
+            <div className="text-pulse-ghost">
+              community_contribution:{" "}
+              <span style={{ color: breakdown.communityContribution >= 0 ? "#00d4ff" : "#ff4069" }}>
+                {breakdown.communityContribution >= 0 ? "+" : ""}
+                {breakdown.communityContribution}
+              </span>
+            </div>
+          )}
         </div>
       </div>
     </div>
   );
 }
 
+// ── COMMIT RHYTHM CHART ───────────────────────────────────────────────────────
+function CommitRhythm({
+  buckets,
+  truncated,
+  color,
+}: {
+  buckets: DailyCommitBucket[];
+  truncated: boolean;
+  color: string;
+}) {
+  const peak = Math.max(1, ...buckets.map((b) => b.count));
+  const total = buckets.reduce((sum, b) => sum + b.count, 0);
+
+  return (
+    <div className="glass-card p-4 sm:p-5">
+      <div className="section-header">
+        <span>💓</span>
+        <h2
+          className="text-sm font-semibold text-pulse-pure"
+          style={{ fontFamily: "'Space Grotesk', sans-serif" }}
+        >
+          Commit Rhythm
+        </h2>
+      </div>
+      <div className="flex items-end gap-[3px] h-24" role="img" aria-label="Daily commits over the last 30 days">
+        {buckets.map((bucket, i) => (
+          <motion.div
+            key={bucket.date}
+            className="flex-1 rounded-t-sm"
+            title={`${bucket.date}: ${bucket.count} commit${bucket.count === 1 ? "" : "s"}`}
+            style={{
+              backgroundColor: bucket.count > 0 ? color : "rgba(30,34,64,0.8)",
+              boxShadow: bucket.count > 0 ? `0 0 6px ${color}44` : "none",
+              minHeight: 2,
+            }}
+            initial={{ height: 0 }}
+            animate={{ height: `${(bucket.count / peak) * 100}%` }}
+            transition={{ duration: 0.6, delay: i * 0.015, ease: "easeOut" }}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between mt-2 text-xs text-pulse-muted font-mono">
+        <span>{buckets[0]?.date}</span>
+        <span>
+          {total}
+          {truncated ? "+" : ""} commits · peak {peak}/day
+        </span>
+        <span>{buckets[buckets.length - 1]?.date}</span>
+      </div>
+    </div>
+  );
+}
+
+// ── CONTRIBUTOR SHARE CHART ───────────────────────────────────────────────────
+const SHARE_COLORS = ["#6c63ff", "#00d4ff", "#00ff9d", "#ffb830", "#b47eff"];
+const RISK_COLORS = { low: "#00ff9d", moderate: "#ffb830", high: "#ff4069", unknown: "#4a5080" };
+
+function ContributorShare({
+  authors,
+  totalCommits,
+  sustainability,
+}: {
+  authors: AuthorCommits[];
+  totalCommits: number;
+  sustainability: VitalityReport["sustainability"];
+}) {
+  const top = authors.slice(0, SHARE_COLORS.length);
+  const topCommits = top.reduce((sum, a) => sum + a.commits, 0);
+  const total = Math.max(totalCommits, topCommits);
+  const others = total - topCommits;
+  const segments = [
+    ...top.map((a, i) => ({ label: a.author, commits: a.commits, color: SHARE_COLORS[i] })),
+    ...(others > 0 ? [{ label: "others", commits: others, color: "#2a2d4a" }] : []),
+  ];
+  const riskColor = RISK_COLORS[sustainability.risk];
+
+  return (
+    <div className="glass-card p-4 sm:p-5">
+      <div className="section-header">
+        <span>👥</span>
+        <h2
+          className="text-sm font-semibold text-pulse-pure"
+          style={{ fontFamily: "'Space Grotesk', sans-serif" }}
+        >
+          Contributor Share
+        </h2>
+        <span
+          className="ml-auto text-xs font-mono px-2 py-0.5 rounded-full"
+          style={{ color: riskColor, backgroundColor: `${riskColor}18` }}
+        >
+          bus factor {sustainability.busFactor}
+        </span>
+      </div>
+
+      <div
+        className="flex h-3 rounded-full overflow-hidden bg-pulse-border"
+        role="img"
+        aria-label="Share of commits per author over the last 30 days"
+      >
+        {segments.map((segment, i) => (
+          <motion.div
+            key={segment.label}
+            title={`${segment.label}: ${segment.commits} commit${segment.commits === 1 ? "" : "s"}`}
+            style={{ backgroundColor: segment.color }}
+            initial={{ width: 0 }}
+            animate={{ width: `${(segment.commits / total) * 100}%` }}
+            transition={{ duration: 0.8, delay: i * 0.08, ease: "easeOut" }}
+          />
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-x-4 gap-y-1.5 mt-3">
+        {segments.map((segment) => (
+          <span key={segment.label} className="flex items-center gap-1.5 text-xs text-pulse-ghost">
+            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: segment.color }} />
+            {segment.label}
+            <span className="font-mono text-pulse-muted">
+              {((segment.commits / total) * 100).toFixed(0)}%
+            </span>
+          </span>
+        ))}
+      </div>
+
+      <div className="flex justify-between mt-3 text-xs text-pulse-muted font-mono">
+        <span>gini {sustainability.gini?.toFixed(2) ?? "—"}</span>
+        <span>top author {sustainability.topAuthorShare ?? "—"}%</span>
+      </div>
+
+      {sustainability.warning && (
+        <p
+          className="mt-3 text-xs rounded-lg px-3 py-2"
+          style={{ color: riskColor, backgroundColor: `${riskColor}12`, border: `1px solid ${riskColor}33` }}
+        >
+          ⚠ {sustainability.warning}
+        </p>
+      )}
+    </div>
+  );
+}
+
 // ── PULSE TAB ─────────────────────────────────────────────────────────────────
 function PulseTab({
   report,
@@ -532,7 +1032,7 @@ function PulseTab({
             Vitality Pulse
           </h2>
         </div>
-        <MascotCanvas report={report} size="hero" />
+        <MascotCanvas report={report} mood={mascotMood(data)} size="hero" />
         <div className="text-center">
           <p
             className="text-lg font-bold"
@@ -600,17 +1100,158 @@ function PulseTab({
           ))}
         </div>
       </div>
+
+      {data.sources.commits.ok && (
+        <CommitRhythm
+          buckets={data.commitBuckets}
+          truncated={data.commitsTruncated}
+          color="#6c63ff"
+        />
+      )}
+
+      {data.sources.commits.ok && data.metrics.commits > 0 && (
+        <ContributorShare
+          authors={data.commitAuthors}
+          totalCommits={data.metrics.commits}
+          sustainability={report.sustainability}
+        />
+      )}
     </div>
   );
 }
 
+// ── LIVE UPDATES ──────────────────────────────────────────────────────────────
+// SSE stream of the dashboard (app/api/live), addressed like its page
+function liveStreamPath(
+  forge: ForgeKind,
+  owner: string,
+  repo: string,
+  host: string | undefined
+): string {
+  const segments =
+    forge === "gitlab"
+      ? [...owner.split("/"), repo]
+      : forge === "gitea"
+      ? [host ?? "", owner, repo]
+      : forge === "local"
+      ? [repo]
+      : [owner, repo];
+  return `/api/live/${forge}/${segments.map(encodeURIComponent).join("/")}`;
+}
+
+// Timeline entry an event adds (removals add none)
+function liveEventKey(event: ActivityEvent): string | null {
+  switch (event.type) {
+    case "commit":
+      return timelineKey("commit", event.commit.sha);
+    case "pr":
+      return timelineKey("pr", event.pr.number);
+    case "issue":
+      return timelineKey("issue", event.issue.number);
+    case "issue-removed":
+      return null;
+    case "release":
+      return timelineKey("release", event.release.tag);
+  }
+}
+
+// Additions go first, replacing any earlier copy of the same item
+function applyLiveEvent(data: FullDashboardData, event: ActivityEvent): FullDashboardData {
+  switch (event.type) {
+    case "commit":
+      return {
+        ...data,
+        recentCommits: [event.commit, ...data.recentCommits.filter((c) => c.sha !== event.commit.sha)],
+      };
+    case "pr":
+      return {
+        ...data,
+        recentPRs: [event.pr, ...data.recentPRs.filter((pr) => pr.number !== event.pr.number)],
+      };
+    case "issue":
+      return {
+        ...data,
+        recentIssues: [event.issue, ...data.recentIssues.filter((i) => i.number !== event.issue.number)],
+      };
+    case "issue-removed":
+      return {
+        ...data,
+        recentIssues: data.recentIssues.filter((i) => i.number !== event.number),
+      };
+    case "release":
+      return {
+        ...data,
+        recentReleases: [event.release, ...data.recentReleases.filter((r) => r.tag !== event.release.tag)],
+      };
+  }
+}
+
+// The server render, then whatever the stream adds to it. Mock dashboards
+// never change, so they get no stream.
+function useLiveDashboard(
+  initialData: FullDashboardData,
+  initialReport: VitalityReport,
+  streamPath: string | null
+) {
+  const [data, setData] = useState(initialData);
+  const [report, setReport] = useState(initialReport);
+  const [liveKeys, setLiveKeys] = useState<ReadonlySet<string>>(() => new Set());
+  const [connected, setConnected] = useState(false);
+
+  // A fresh server render (navigation, refresh) supersedes streamed state
+  useEffect(() => {
+    setData(initialData);
+    setReport(initialReport);
+    setLiveKeys(new Set());
+  }, [initialData, initialReport]);
+
+  const since = initialData.fetchedAt;
+  const profile = initialReport.profile.name; // Recompute with the page's formula
+  useEffect(() => {
+    if (!streamPath) return;
+    const source = new EventSource(
+      `${streamPath}?since=${encodeURIComponent(since)}&profile=${encodeURIComponent(profile)}`
+    );
+    source.onopen = () => setConnected(true);
+    source.onerror = () => setConnected(false); // EventSource retries by itself
+    source.onmessage = (message: MessageEvent<string>) => {
+      const event = JSON.parse(message.data) as LiveEvent;
+      // The snapshot supersedes everything derived from the old one
+      if (event.type === "report") {
+        setReport(event.report);
+        setData(event.dashboard);
+        return;
+      }
+      setData((current) => applyLiveEvent(current, event));
+      const key = liveEventKey(event);
+      if (key) setLiveKeys((keys) => new Set(keys).add(key));
+    };
+    return () => {
+      source.close();
+      setConnected(false);
+    };
+  }, [streamPath, since, profile]);
+
+  return { data, report, liveKeys, connected };
+}
+
 // ── ROOT CLIENT COMPONENT ─────────────────────────────────────────────────────
 export default function DashboardClient({
-  data,
-  report,
+  data: initialData,
+  report: initialReport,
   currentOwner,
   currentRepo,
+  currentHost,
+  viewer,
+  signInAvailable,
 }: DashboardClientProps) {
+  const { data, report, liveKeys, connected } = useLiveDashboard(
+    initialData,
+    initialReport,
+    initialData.isMockData
+      ? null
+      : liveStreamPath(initialData.forge, currentOwner, currentRepo, currentHost)
+  );
   const [activeTab, setActiveTab] = useState<NavTab>("dashboard");
   const { stateConfig } = report;
   const glowColor = stateConfig.glowColor;
@@ -626,11 +1267,25 @@ export default function DashboardClient({
   const tabContent = {
     dashboard: (
       <div className="space-y-4">
-        <MetricGrid metrics={data.metrics} report={report} />
+        <MetricGrid
+          metrics={data.metrics}
+          report={report}
+          sources={data.sources}
+          prTimings={data.prTimings}
+          issueFlow={data.issueFlow}
+        />
+        {data.sources.backlog.ok && (
+          <PRBacklog backlog={data.prBacklog} glowColor={glowColor} />
+        )}
+        {data.sources.newcomers.ok && (
+          <NewcomersPanel funnel={data.newcomers} glowColor={glowColor} />
+        )}
         <HistoryScroll
           commits={data.recentCommits}
           prs={data.recentPRs}
           issues={data.recentIssues}
+          releases={data.recentReleases}
+          liveKeys={liveKeys}
           glowColor={glowColor}
         />
       </div>
@@ -641,6 +1296,8 @@ export default function DashboardClient({
         commits={data.recentCommits}
         prs={data.recentPRs}
         issues={data.recentIssues}
+        releases={data.recentReleases}
+        liveKeys={liveKeys}
         glowColor={glowColor}
       />
     ),
@@ -650,6 +1307,8 @@ export default function DashboardClient({
         report={report}
         currentOwner={currentOwner}
         currentRepo={currentRepo}
+        viewer={viewer}
+        signInAvailable={signInAvailable}
       />
     ),
   };
@@ -663,6 +1322,7 @@ export default function DashboardClient({
         onTabChange={setActiveTab}
         currentOwner={currentOwner}
         currentRepo={currentRepo}
+        currentHost={currentHost}
       />
 
       <main className="flex-1 flex flex-col min-w-0 pb-[72px] md:pb-0">
@@ -671,6 +1331,7 @@ export default function DashboardClient({
           report={report}
           currentOwner={currentOwner}
           currentRepo={currentRepo}
+          currentHost={currentHost}
         />
 
         <div className="hidden md:flex items-center justify-between px-6 py-4 border-b border-pulse-border">
@@ -683,6 +1344,7 @@ export default function DashboardClient({
             </h2>
             <p className="text-xs text-pulse-muted mt-0.5">
               Last synced {relativeTime(data.fetchedAt)}
+              {connected && <span style={{ color: glowColor }}> · live</span>}
             </p>
           </div>
           <motion.div
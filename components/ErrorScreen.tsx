@@ -0,0 +1,130 @@
+// FILE: components/ErrorScreen.tsx
+"use client";
+
+import Link from "next/link";
+import { motion } from "framer-motion";
+import MascotCanvas, { type MascotAlert } from "./MascotCanvas";
+
+interface ErrorScreenProps {
+  alert: MascotAlert;
+  title: string;
+  message: string;
+  repoName?: string;
+  retryAt?: string;       // ISO timestamp — rendered as local HH:MM
+  onRetry?: () => void;
+  signInHref?: string;    // GitHub sign-in route, for a viewer whose token was rejected
+}
+
+const ALERT_COLORS: Record<MascotAlert, string> = {
+  "not-found": "#8b92b8",
+  "rate-limited": "#ffb830",
+  unauthorized: "#ff4069",
+  offline: "#4a5080",
+};
+
+function formatClock(iso: string): string {
+  return new Date(iso).toLocaleTimeString("en-US", {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+// ── FULL-SCREEN ERROR STATE ───────────────────────────────────────────────────
+export default function ErrorScreen({
+  alert,
+  title,
+  message,
+  repoName,
+  retryAt,
+  onRetry,
+  signInHref,
+}: ErrorScreenProps) {
+  const color = ALERT_COLORS[alert];
+
+  return (
+    <div className="min-h-dvh bg-pulse-void flex items-center justify-center p-4 sm:p-6">
+      <motion.div
+        className="glass-card w-full max-w-md p-6 sm:p-8 flex flex-col items-center text-center"
+        initial={{ opacity: 0, y: 16 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.4, ease: "easeOut" }}
+      >
+        <div
+          className="absolute top-0 left-0 right-0 h-0.5 rounded-t-2xl"
+          style={{ background: color }}
+        />
+
+        <h1
+          className="text-sm font-bold gradient-text-violet mb-6"
+          style={{ fontFamily: "'Space Grotesk', sans-serif" }}
+        >
+          NexusPulse OS
+        </h1>
+
+        <MascotCanvas alert={alert} size="hero" />
+
+        <h2
+          className="text-lg font-bold mt-6"
+          style={{ color, fontFamily: "'Space Grotesk', sans-serif" }}
+        >
+          {title}
+        </h2>
+
+        {repoName && (
+          <p className="font-mono text-xs text-pulse-ghost mt-1">{repoName}</p>
+        )}
+
+        <p className="text-sm text-pulse-ghost mt-3 leading-relaxed">{message}</p>
+
+        {retryAt && (
+          <p
+            className="mt-4 text-xs font-mono px-3 py-1.5 rounded-lg"
+            style={{ color, backgroundColor: `${color}15`, border: `1px solid ${color}30` }}
+            suppressHydrationWarning
+          >
+            Retry at {formatClock(retryAt)}
+          </p>
+        )}
+
+        <div className="flex items-center gap-3 mt-6">
+          {onRetry && (
+            <motion.button
+              onClick={onRetry}
+              className="px-4 py-2 rounded-xl text-xs font-semibold touch-active"
+              style={{
+                background: `${color}20`,
+                color,
+                border: `1px solid ${color}40`,
+                fontFamily: "'Space Grotesk', sans-serif",
+              }}
+              whileTap={{ scale: 0.94 }}
+            >
+              ⟳ Try again
+            </motion.button>
+          )}
+          {signInHref && (
+            <a
+              href={signInHref}
+              className="px-4 py-2 rounded-xl text-xs font-semibold touch-active"
+              style={{
+                background: `${color}20`,
+                color,
+                border: `1px solid ${color}40`,
+                fontFamily: "'Space Grotesk', sans-serif",
+              }}
+            >
+              Sign in again
+            </a>
+          )}
+          <Link
+            href="/"
+            className="px-4 py-2 rounded-xl text-xs font-semibold text-pulse-ghost border border-pulse-border hover:text-pulse-pure transition-colors"
+            style={{ fontFamily: "'Space Grotesk', sans-serif" }}
+          >
+            ← Default dashboard
+          </Link>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+// FILE: components/ForgeDashboard.tsx
+
+import { Suspense } from "react";
+import { notFound } from "next/navigation";
+import type { FullDashboardData } from "@/lib/github-client";
+import { getDashboardData } from "@/lib/dashboard-cache";
+import { FORGE_PROVIDERS, type ForgeKind } from "@/lib/forge-provider";
+import {
+  GitHubNotFoundError,
+  GitHubRateLimitError,
+  GitHubUnauthorizedError,
+} from "@/lib/github-errors";
+import { resolveScoringProfile } from "@/lib/scoring-profiles";
+import { computeVitality } from "@/lib/vitality-engine";
+import { oauthConfigured, readViewerSession, toViewer } from "@/lib/viewer-session";
+import DashboardClient from "@/components/DashboardClient";
+import ErrorScreen from "@/components/ErrorScreen";
+
+// Server half of every dashboard route: loads through the forge's provider
+// and maps its failures onto error screens
+
+// ── TYPES ─────────────────────────────────────────────────────────────────────
+interface ForgeDashboardProps {
+  forge: ForgeKind;
+  owner: string; // Still URI-encoded, as it arrives in route params
+  repo: string;
+  host?: string; // Self-hosted instance (Gitea)
+  scenario?: string | string[]; // ?scenario= for mock mode, as it arrives in searchParams
+  profile?: string | string[];  // ?profile= scoring profile, as it arrives in searchParams
+}
+
+// ── DATA FETCHING COMPONENT ───────────────────────────────────────────────────
+async function DashboardData({ forge, owner, repo, host, scenario, profile }: ForgeDashboardProps) {
+  const provider = FORGE_PROVIDERS[forge];
+  // Decode URI components in case the URL contains encoded chars
+  const decodedOwner = decodeURIComponent(owner);
+  const decodedRepo = decodeURIComponent(repo);
+  const decodedHost = host && decodeURIComponent(host).toLowerCase();
+  const target = { owner: decodedOwner, repo: decodedRepo, host: decodedHost };
+  // Viewer sign-in is GitHub's; other forges keep their configured tokens
+  const viewer = forge === "github" ? await readViewerSession() : null;
+
+  let data: FullDashboardData;
+  try {
+    data = await getDashboardData(
+      provider,
+      target,
+      {
+        mockScenario: typeof scenario === "string" ? scenario : undefined,
+        viewerToken: viewer?.token,
+      }
+    );
+  } catch (error) {
+    const repoName = `${decodedOwner}/${decodedRepo}`;
+
+    if (error instanceof GitHubNotFoundError) notFound();
+
+    if (error instanceof GitHubRateLimitError) {
+      return (
+        <ErrorScreen
+          alert="rate-limited"
+          title="Rate limited"
+          repoName={repoName}
+          message={`NexusPulse has used up its ${provider.label} API quota for now. The dashboard will load again once the quota resets.`}
+          retryAt={error.resetAt}
+        />
+      );
+    }
+
+    if (error instanceof GitHubUnauthorizedError) {
+      return (
+        <ErrorScreen
+          alert="unauthorized"
+          title="Access denied"
+          repoName={repoName}
+          message={
+            viewer
+              ? `${provider.label} rejected your sign-in as @${viewer.login}. The authorization may have been revoked on GitHub; signing in again renews it.`
+              : `${provider.label} rejected the configured credentials. The token may be expired, revoked, or missing access to this repository.`
+          }
+          signInHref={viewer ? `/api/auth/login?returnTo=${encodeURIComponent(`/${owner}/${repo}`)}` : undefined}
+        />
+      );
+    }
+
+    // Network and upstream failures fall through to error.tsx
+    throw error;
+  }
+
+  const report = computeVitality(data.metrics, {
+    communityTerm: process.env.VITALITY_COMMUNITY_TERM === "true",
+    profile: resolveScoringProfile(forge, target, typeof profile === "string" ? profile : undefined),
+    sources: data.sources,
+  });
+
+  return (
+    <DashboardClient
+      data={data}
+      report={report}
+      currentOwner={decodedOwner}
+      currentRepo={decodedRepo}
+      currentHost={decodedHost}
+      viewer={viewer && toViewer(viewer)}
+      signInAvailable={forge === "github" && oauthConfigured()}
+    />
+  );
+}
+
+// ── LOADING SKELETON ──────────────────────────────────────────────────────────
+function DashboardSkeleton() {
+  return (
+    <div className="min-h-dvh bg-pulse-void flex flex-col">
+      <div className="p-4 sm:p-6 flex items-center justify-between border-b border-pulse-border">
+        <div>
+          <div className="skeleton h-6 w-40 mb-2" />
+          <div className="skeleton h-4 w-64" />
+        </div>
+        <div className="skeleton w-10 h-10 rounded-xl" />
+      </div>
+      <div className="flex justify-center py-8 md:hidden">
+        <div className="skeleton w-44 h-44 rounded-full" />
+      </div>
+      <div className="p-4 sm:p-6 grid grid-cols-2 sm:grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4">
+        {Array.from({ length: 8 }, (_, i) => (
+          <div key={i} className="skeleton h-28 rounded-2xl" />
+        ))}
+        <div className="col-span-full skeleton h-40 rounded-2xl" />
+      </div>
+      <div className="px-4 sm:px-6 pb-24 sm:pb-6">
+        <div className="skeleton h-96 rounded-2xl" />
+      </div>
+    </div>
+  );
+}
+
+// ── ROOT ──────────────────────────────────────────────────────────────────────
+export default function ForgeDashboard(props: ForgeDashboardProps) {
+  return (
+    <Suspense fallback={<DashboardSkeleton />}>
+      <DashboardData {...props} />
+    </Suspense>
+  );
+}
@@ -3,18 +3,21 @@
 
 import { motion, useScroll, useTransform, useReducedMotion } from "framer-motion";
 import { useRef } from "react";
-import { relativeTime } from "@/lib/vitality-engine";
-import type { CommitActivity, PullRequest, Issue } from "@/lib/github-client";
+import { formatDuration, relativeTime } from "@/lib/vitality-engine";
+import type { CommitActivity, PullRequest, Issue, Release } from "@/lib/github-client";
 
 type TimelineEvent =
   | { kind: "commit"; data: CommitActivity }
   | { kind: "pr"; data: PullRequest }
-  | { kind: "issue"; data: Issue };
+  | { kind: "issue"; data: Issue }
+  | { kind: "release"; data: Release };
 
 interface HistoryScrollProps {
   commits: CommitActivity[];
   prs: PullRequest[];
   issues: Issue[];
+  releases?: Release[];
+  liveKeys?: ReadonlySet<string>; // timelineKey()s that arrived over the live stream
   glowColor?: string;
   className?: string;
 }
@@ -24,36 +27,60 @@ const EVENT_CONFIG = {
   commit: { icon: "💾", label: "commit", color: "#6c63ff", bg: "rgba(108,99,255,0.1)" },
   pr: { icon: "🔀", label: "PR merged", color: "#00d4ff", bg: "rgba(0,212,255,0.1)" },
   issue: { icon: "🐛", label: "issue", color: "#ffb830", bg: "rgba(255,184,48,0.1)" },
+  release: { icon: "🚀", label: "release", color: "#00ff9d", bg: "rgba(0,255,157,0.1)" },
 };
 
+// Stable identity, so live events slide in above items that keep their place
+export function timelineKey(
+  kind: TimelineEvent["kind"],
+  id: string | number
+): string {
+  return `${kind}:${id}`;
+}
+
+function eventKey(event: TimelineEvent): string {
+  switch (event.kind) {
+    case "commit":
+      return timelineKey("commit", event.data.sha);
+    case "pr":
+    case "issue":
+      return timelineKey(event.kind, event.data.number);
+    case "release":
+      return timelineKey("release", event.data.tag);
+  }
+}
+
+function eventDate(event: TimelineEvent): string {
+  switch (event.kind) {
+    case "commit":
+      return event.data.date;
+    case "pr":
+      return event.data.mergedAt ?? "";
+    case "issue":
+      return event.data.updatedAt;
+    case "release":
+      return event.data.publishedAt;
+  }
+}
+
 // ── MERGE & SORT EVENTS ───────────────────────────────────────────────────────
 function buildTimeline(
   commits: CommitActivity[],
   prs: PullRequest[],
-  issues: Issue[]
+  issues: Issue[],
+  releases: Release[]
 ): TimelineEvent[] {
   const events: TimelineEvent[] = [
     ...commits.slice(0, 8).map((data) => ({ kind: "commit" as const, data })),
     ...prs.slice(0, 5).map((data) => ({ kind: "pr" as const, data })),
     ...issues.slice(0, 5).map((data) => ({ kind: "issue" as const, data })),
+    ...releases.slice(0, 3).map((data) => ({ kind: "release" as const, data })),
   ];
 
   // Sort by date descending
-  return events.sort((a, b) => {
-    const dateA =
-      a.kind === "commit"
-        ? a.data.date
-        : a.kind === "pr"
-        ? a.data.mergedAt ?? ""
-        : a.data.updatedAt;
-    const dateB =
-      b.kind === "commit"
-        ? b.data.date
-        : b.kind === "pr"
-        ? b.data.mergedAt ?? ""
-        : b.data.updatedAt;
-    return new Date(dateB).getTime() - new Date(dateA).getTime();
-  });
+  return events.sort(
+    (a, b) => new Date(eventDate(b)).getTime() - new Date(eventDate(a)).getTime()
+  );
 }
 
 // ── SINGLE TIMELINE ITEM ──────────────────────────────────────────────────────
@@ -61,11 +88,13 @@ function TimelineItem({
   event,
   index,
   isLast,
+  isLive,
   glowColor,
 }: {
   event: TimelineEvent;
   index: number;
   isLast: boolean;
+  isLive: boolean;
   glowColor: string;
 }) {
   const config = EVENT_CONFIG[event.kind];
@@ -73,37 +102,30 @@ function TimelineItem({
   const title =
     event.kind === "commit"
       ? event.data.message
-      : event.kind === "pr"
-      ? `#${event.data.number}: ${event.data.title}`
+      : event.kind === "release"
+      ? event.data.name === event.data.tag
+        ? event.data.tag
+        : `${event.data.tag}: ${event.data.name}`
       : `#${event.data.number}: ${event.data.title}`;
 
   const author =
     event.kind === "commit"
       ? event.data.author
-      : event.kind === "pr"
+      : event.kind === "pr" || event.kind === "release"
       ? event.data.author
       : null;
 
-  const date =
-    event.kind === "commit"
-      ? event.data.date
-      : event.kind === "pr"
-      ? event.data.mergedAt ?? ""
-      : event.data.updatedAt;
+  const date = eventDate(event);
 
   const isStale = event.kind === "issue" && event.data.isStale;
-  const url =
-    event.kind === "commit"
-      ? event.data.url
-      : event.kind === "pr"
-      ? event.data.url
-      : event.data.url;
+  const url = event.data.url;
 
   return (
     <motion.div
-      initial={{ opacity: 0, x: -20 }}
-      animate={{ opacity: 1, x: 0 }}
-      transition={{ duration: 0.4, delay: index * 0.06, ease: "easeOut" }}
+      layout="position"
+      initial={isLive ? { opacity: 0, y: -16, scale: 0.96 } : { opacity: 0, x: -20 }}
+      animate={{ opacity: 1, x: 0, y: 0, scale: 1 }}
+      transition={{ duration: 0.4, delay: isLive ? 0 : index * 0.06, ease: "easeOut" }}
       className="relative flex gap-3 sm:gap-4 group"
     >
       {/* ── TIMELINE SPINE ── */}
@@ -158,7 +180,18 @@ function TimelineItem({
             >
               {config.label}
             </span>
-            <span className="text-xs text-pulse-muted flex-shrink-0">
+            <span className="text-xs text-pulse-muted flex-shrink-0 flex items-center gap-1.5">
+              {isLive && (
+                <motion.span
+                  className="uppercase tracking-wider font-medium"
+                  style={{ color: glowColor }}
+                  initial={{ opacity: 0 }}
+                  animate={{ opacity: [0, 1, 0.6] }}
+                  transition={{ duration: 1.2 }}
+                >
+                  live
+                </motion.span>
+              )}
               {date ? relativeTime(date) : "—"}
             </span>
           </div>
@@ -175,8 +208,30 @@ function TimelineItem({
                 <span className="text-pulse-ghost">@{author}</span>
               </span>
             )}
+            {event.kind === "issue" && event.data.firstResponseAt && (
+              <span className="metric-chip text-xs" style={{ color: "#00ff9d", borderColor: "#00ff9d33" }}>
+                ↩ answered in{" "}
+                {formatDuration(
+                  (new Date(event.data.firstResponseAt).getTime() -
+                    new Date(event.data.createdAt).getTime()) /
+                    3600000
+                )}
+              </span>
+            )}
+            {event.kind === "release" && event.data.isPrerelease && (
+              <span className="metric-chip text-xs" style={{ color: "#ffb830", borderColor: "#ffb83044" }}>
+                prerelease
+              </span>
+            )}
+            {event.kind === "release" && event.data.fromTag && (
+              <span className="metric-chip text-xs">tag</span>
+            )}
             {isStale && (
-              <span className="metric-chip text-xs" style={{ color: "#ff4069", borderColor: "#ff406944", backgroundColor: "#ff406912" }}>
+              <span
+                className="metric-chip text-xs"
+                title={event.kind === "issue" ? event.data.staleReason ?? undefined : undefined}
+                style={{ color: "#ff4069", borderColor: "#ff406944", backgroundColor: "#ff406912" }}
+              >
                 ⚠ stale
               </span>
             )}
@@ -201,10 +256,12 @@ export default function HistoryScroll({
   commits,
   prs,
   issues,
+  releases = [],
+  liveKeys,
   glowColor = "#6c63ff",
   className = "",
 }: HistoryScrollProps) {
-  const events = buildTimeline(commits, prs, issues);
+  const events = buildTimeline(commits, prs, issues, releases);
   const containerRef = useRef<HTMLDivElement>(null);
 
   return (
@@ -221,7 +278,7 @@ export default function HistoryScroll({
           </h2>
         </div>
         <p className="text-xs text-pulse-muted">
-          {events.length} events · merged from commits, PRs & issues
+          {events.length} events · merged from commits, PRs, issues & releases
         </p>
       </div>
 
@@ -244,10 +301,11 @@ export default function HistoryScroll({
           <div className="space-y-0">
             {events.map((event, i) => (
               <TimelineItem
-                key={`${event.kind}-${i}`}
+                key={eventKey(event)}
                 event={event}
                 index={i}
                 isLast={i === events.length - 1}
+                isLive={liveKeys?.has(eventKey(event)) ?? false}
                 glowColor={glowColor}
               />
             ))}
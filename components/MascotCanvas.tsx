@@ -2,18 +2,37 @@
 "use client";
 
 import { motion, AnimatePresence, useReducedMotion } from "framer-motion";
-import { useMemo } from "react";
-import type { VitalityReport, VitalityState } from "@/lib/vitality-engine";
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  SCORE_TERM_LABELS,
+  STATE_CONFIGS,
+  type VitalityReport,
+  type VitalityState,
+} from "@/lib/vitality-engine";
 
-interface MascotCanvasProps {
-  report: VitalityReport;
+// Error moods shown in place of a vitality state when there is no report
+export type MascotAlert = "not-found" | "rate-limited" | "unauthorized" | "offline";
+
+// Moods layered over a vitality state without replacing it
+export type MascotMood = "red-build";
+
+type MascotCanvasProps = {
   size?: "hero" | "orb"; // hero = mobile header, orb = desktop sidebar
   className?: string;
+} & (
+  | { report: VitalityReport; alert?: undefined; mood?: MascotMood }
+  | { report?: undefined; alert: MascotAlert; mood?: undefined }
+);
+
+interface MascotEyes {
+  left: string;
+  right: string;
+  pupil?: string;
 }
 
 // ── STATE → SVG PATH MAPPING ──────────────────────────────────────────────────
 // Each state has a unique "eye" expression and body shape variation
-const MASCOT_EYES: Record<VitalityState, { left: string; right: string; pupil?: string }> = {
+const MASCOT_EYES: Record<VitalityState, MascotEyes> = {
   dormant: {
     left: "M 58 48 Q 62 44 66 48",   // closed eyes
     right: "M 74 48 Q 78 44 82 48",
@@ -40,6 +59,100 @@ const MASCOT_EYES: Record<VitalityState, { left: string; right: string; pupil?:
   },
 };
 
+const MASCOT_MOUTHS: Record<VitalityState, string> = {
+  dormant: "M 60 65 Q 70 65 80 65",     // flat line — dormant
+  recovering: "M 60 66 Q 70 63 80 66",  // slight upturn
+  stable: "M 58 65 Q 70 72 82 65",      // smile
+  thriving: "M 56 63 Q 70 74 84 63",    // big smile
+  supernova: "M 54 61 Q 70 76 86 61",   // huge grin — supernova
+};
+
+const BODY_COLORS: Record<VitalityState, [string, string]> = {
+  dormant: ["#2a2d4a", "#1a1c35"],
+  recovering: ["#3d2a0a", "#2a1a05"],
+  stable: ["#0a2a3d", "#051a2a"],
+  thriving: ["#0a3d2a", "#052a1a"],
+  supernova: ["#3d1a0a", "#2a0a05"],
+};
+
+// ── ALERT → FACE MAPPING ──────────────────────────────────────────────────────
+const ALERT_CONFIGS: Record<
+  MascotAlert,
+  {
+    label: string;
+    emoji: string;
+    glowColor: string;
+    eyes: MascotEyes;
+    mouth: string;
+    body: [string, string];
+    readout: string;
+  }
+> = {
+  "not-found": {
+    label: "Not Found",
+    emoji: "🔭",
+    glowColor: "#8b92b8",
+    eyes: {
+      left: "M 58 47 Q 62 41 66 47",   // open, glancing sideways
+      right: "M 74 47 Q 78 41 82 47",
+      pupil: "M 64 45 a 3 3 0 1 1 -0.01 0 M 80 45 a 3 3 0 1 1 -0.01 0",
+    },
+    mouth: "M 64 66 Q 70 62 76 66 Q 70 70 64 66", // small "o" of confusion
+    body: ["#1e2240", "#0d0f1e"],
+    readout: "404",
+  },
+  "rate-limited": {
+    label: "Throttled",
+    emoji: "⏳",
+    glowColor: "#ffb830",
+    eyes: {
+      left: "M 58 47 L 66 47",         // heavy-lidded, waiting
+      right: "M 74 47 L 82 47",
+    },
+    mouth: "M 60 66 Q 65 63 70 66 Q 75 69 80 66", // wavy impatience
+    body: ["#3d2a0a", "#2a1a05"],
+    readout: "429",
+  },
+  unauthorized: {
+    label: "Locked",
+    emoji: "🔒",
+    glowColor: "#ff4069",
+    eyes: {
+      left: "M 58 42 L 66 50 M 66 42 L 58 50", // crossed-out eyes
+      right: "M 74 42 L 82 50 M 82 42 L 74 50",
+    },
+    mouth: "M 60 68 Q 70 62 80 68",   // frown
+    body: ["#3d0a1a", "#2a0510"],
+    readout: "401",
+  },
+  offline: {
+    label: "Offline",
+    emoji: "📡",
+    glowColor: "#4a5080",
+    eyes: {
+      left: "M 58 48 Q 62 52 66 48",   // drooping
+      right: "M 74 48 Q 78 52 82 48",
+    },
+    mouth: "M 60 66 L 80 66",
+    body: ["#2a2d4a", "#1a1c35"],
+    readout: "ERR",
+  },
+};
+
+// ── MOOD OVERLAYS ─────────────────────────────────────────────────────────────
+const MOOD_OVERLAYS: Record<
+  MascotMood,
+  { label: string; emoji: string; color: string; brows: string; drop: string }
+> = {
+  "red-build": {
+    label: "CI failing",
+    emoji: "🔴",
+    color: "#ff4069",
+    brows: "M 56 37 L 66 40 M 84 37 L 74 40",        // knitted, worried
+    drop: "M 92 50 Q 96 57 92 60 Q 88 57 92 50 Z",    // sweat drop
+  },
+};
+
 // ── PARTICLE SYSTEM ───────────────────────────────────────────────────────────
 function Particle({ index, total, color }: { index: number; total: number; color: string }) {
   const angle = (index / total) * 360;
@@ -77,12 +190,37 @@ function Particle({ index, total, color }: { index: number; total: number; color
 // ── MAIN COMPONENT ────────────────────────────────────────────────────────────
 export default function MascotCanvas({
   report,
+  alert,
+  mood,
   size = "hero",
   className = "",
 }: MascotCanvasProps) {
   const prefersReducedMotion = useReducedMotion();
-  const { state, stateConfig, normalizedScore, healthPercentage } = report;
-  const eyes = MASCOT_EYES[state];
+  const alertConfig = alert ? ALERT_CONFIGS[alert] : null;
+  const state: VitalityState = report?.state ?? "dormant";
+  const stateConfig = alertConfig
+    ? {
+        ...STATE_CONFIGS.dormant,
+        label: alertConfig.label,
+        emoji: alertConfig.emoji,
+        glowColor: alertConfig.glowColor,
+      }
+    : report!.stateConfig;
+  const healthPercentage = report?.healthPercentage ?? 0;
+  const readout = alertConfig?.readout ?? `${report!.normalizedScore.toFixed(0)}%`;
+  const eyes = alertConfig?.eyes ?? MASCOT_EYES[state];
+  const faceKey = alert ?? state;
+  const moodOverlay = mood ? MOOD_OVERLAYS[mood] : null;
+  // Terms scored as zero because their source failed to load
+  const provisional = alertConfig ? [] : report!.provisional;
+
+  // Live updates can move the score across a threshold while mounted; each
+  // state change after the first render sends out a shockwave
+  const firstFace = useRef(faceKey);
+  const [hasShifted, setHasShifted] = useState(false);
+  useEffect(() => {
+    if (faceKey !== firstFace.current) setHasShifted(true);
+  }, [faceKey]);
 
   const svgSize = size === "hero" ? 180 : 140;
   const viewBox = "0 0 140 140";
@@ -93,14 +231,7 @@ export default function MascotCanvas({
   const dashOffset = circumference - (healthPercentage / 100) * circumference;
 
   // Body fill varies by state
-  const bodyColors: Record<VitalityState, [string, string]> = {
-    dormant: ["#2a2d4a", "#1a1c35"],
-    recovering: ["#3d2a0a", "#2a1a05"],
-    stable: ["#0a2a3d", "#051a2a"],
-    thriving: ["#0a3d2a", "#052a1a"],
-    supernova: ["#3d1a0a", "#2a0a05"],
-  };
-  const [bodyTop, bodyBottom] = bodyColors[state];
+  const [bodyTop, bodyBottom] = alertConfig?.body ?? BODY_COLORS[state];
 
   // Core body animation config
   const bodyAnimations = useMemo(() => {
@@ -151,6 +282,18 @@ export default function MascotCanvas({
         transition={{ duration: 3, repeat: Infinity, ease: "easeInOut" }}
       />
 
+      {/* State-change shockwave */}
+      {hasShifted && !prefersReducedMotion && (
+        <motion.div
+          key={`shift-${faceKey}`}
+          className="absolute inset-0 rounded-full pointer-events-none"
+          style={{ border: `2px solid ${stateConfig.glowColor}` }}
+          initial={{ scale: 0.8, opacity: 0.9 }}
+          animate={{ scale: 1.6, opacity: 0 }}
+          transition={{ duration: 1.2, ease: "easeOut" }}
+        />
+      )}
+
       {/* SVG Organism */}
       <motion.svg
         width={svgSize}
@@ -164,7 +307,7 @@ export default function MascotCanvas({
       >
         <defs>
           {/* Body gradient */}
-          <radialGradient id={`bodyGrad-${state}`} cx="50%" cy="40%" r="60%">
+          <radialGradient id={`bodyGrad-${faceKey}`} cx="50%" cy="40%" r="60%">
             <stop offset="0%" stopColor={bodyTop} />
             <stop offset="100%" stopColor={bodyBottom} />
           </radialGradient>
@@ -232,7 +375,7 @@ export default function MascotCanvas({
           cy="72"
           rx="38"
           ry="42"
-          fill={`url(#bodyGrad-${state})`}
+          fill={`url(#bodyGrad-${faceKey})`}
           stroke={stateConfig.glowColor}
           strokeWidth="1.5"
           strokeOpacity="0.6"
@@ -251,7 +394,7 @@ export default function MascotCanvas({
         {/* ── EYES ── */}
         <AnimatePresence mode="wait">
           <motion.g
-            key={`eyes-${state}`}
+            key={`eyes-${faceKey}`}
             initial={{ opacity: 0, scaleY: 0 }}
             animate={{ opacity: 1, scaleY: 1 }}
             exit={{ opacity: 0, scaleY: 0 }}
@@ -275,7 +418,7 @@ export default function MascotCanvas({
             />
 
             {/* Pupils — only for open-eye states */}
-            {eyes.pupil && state !== "dormant" && (
+            {eyes.pupil && (alertConfig || state !== "dormant") && (
               <path
                 d={eyes.pupil}
                 fill={stateConfig.glowColor}
@@ -284,7 +427,7 @@ export default function MascotCanvas({
             )}
 
             {/* Supernova star pupils */}
-            {state === "supernova" && (
+            {!alertConfig && state === "supernova" && (
               <>
                 <motion.text
                   x="58"
@@ -317,17 +460,8 @@ export default function MascotCanvas({
 
         {/* ── MOUTH ── */}
         <motion.path
-          d={
-            state === "dormant"
-              ? "M 60 65 Q 70 65 80 65"     // flat line — dormant
-              : state === "recovering"
-              ? "M 60 66 Q 70 63 80 66"     // slight upturn
-              : state === "stable"
-              ? "M 58 65 Q 70 72 82 65"     // smile
-              : state === "thriving"
-              ? "M 56 63 Q 70 74 84 63"     // big smile
-              : "M 54 61 Q 70 76 86 61"     // huge grin — supernova
-          }
+          key={`mouth-${faceKey}`}
+          d={alertConfig?.mouth ?? MASCOT_MOUTHS[state]}
           stroke={stateConfig.glowColor}
           strokeWidth="2"
           strokeLinecap="round"
@@ -337,6 +471,36 @@ export default function MascotCanvas({
           transition={{ duration: 0.8, ease: "easeOut" }}
         />
 
+        {/* ── MOOD OVERLAY ── */}
+        {moodOverlay && (
+          <g>
+            <motion.circle
+              cx="70"
+              cy="70"
+              r="67"
+              stroke={moodOverlay.color}
+              strokeWidth="1.5"
+              strokeDasharray="4 6"
+              fill="none"
+              animate={prefersReducedMotion ? {} : { opacity: [0.3, 1, 0.3] }}
+              transition={{ duration: 1.2, repeat: Infinity, ease: "easeInOut" }}
+            />
+            <path
+              d={moodOverlay.brows}
+              stroke={moodOverlay.color}
+              strokeWidth="2"
+              strokeLinecap="round"
+            />
+            <motion.path
+              d={moodOverlay.drop}
+              fill={moodOverlay.color}
+              fillOpacity="0.7"
+              animate={prefersReducedMotion ? {} : { y: [0, 4, 0] }}
+              transition={{ duration: 1.6, repeat: Infinity, ease: "easeIn" }}
+            />
+          </g>
+        )}
+
         {/* Vitality score readout inside body */}
         <text
           x="70"
@@ -347,12 +511,35 @@ export default function MascotCanvas({
           fill={stateConfig.glowColor}
           fillOpacity="0.8"
         >
-          {normalizedScore.toFixed(0)}%
+          {readout}
         </text>
       </motion.svg>
 
+      {/* Mood badge */}
+      {moodOverlay && (
+        <motion.div
+          className="absolute -top-1 right-0"
+          initial={{ opacity: 0, scale: 0.8 }}
+          animate={{ opacity: 1, scale: 1 }}
+          transition={{ delay: 0.6 }}
+        >
+          <span
+            className="text-[10px] font-medium px-1.5 py-0.5 rounded-full no-select"
+            style={{
+              backgroundColor: `${moodOverlay.color}22`,
+              border: `1px solid ${moodOverlay.color}66`,
+              color: moodOverlay.color,
+              fontFamily: "'Space Grotesk', sans-serif",
+            }}
+          >
+            {moodOverlay.emoji} {moodOverlay.label}
+          </span>
+        </motion.div>
+      )}
+
       {/* State label badge */}
       <motion.div
+        key={faceKey}
         className="absolute -bottom-1 left-1/2 -translate-x-1/2"
         initial={{ opacity: 0, y: 4 }}
         animate={{ opacity: 1, y: 0 }}
@@ -366,8 +553,14 @@ export default function MascotCanvas({
             color: stateConfig.glowColor,
             fontFamily: "'Space Grotesk', sans-serif",
           }}
+          title={
+            provisional.length > 0
+              ? `Provisional: ${provisional.map((t) => SCORE_TERM_LABELS[t]).join(", ")} unavailable`
+              : undefined
+          }
         >
           {stateConfig.emoji} {stateConfig.label}
+          {provisional.length > 0 && " · provisional"}
         </span>
       </motion.div>
     </div>
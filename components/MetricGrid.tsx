@@ -2,25 +2,66 @@
 "use client";
 
 import { motion } from "framer-motion";
-import { formatMetricValue, type VitalityReport, type RawMetrics } from "@/lib/vitality-engine";
+import {
+  formatDuration,
+  formatFormula,
+  formatMetricValue,
+  relativeTime,
+  type ScoreTerm,
+  type VitalityReport,
+  type RawMetrics,
+} from "@/lib/vitality-engine";
+import type {
+  DataSource,
+  IssueFlow,
+  PRTimings,
+  SourceStatusMap,
+} from "@/lib/github-client";
 
 interface MetricCard {
   id: string;
   label: string;
   value: string | number;
+  secondaryValue?: string; // Smaller companion figure shown beside the value
   sublabel?: string;
   icon: string;
   trend?: "up" | "down" | "flat";
   color: string;    // CSS color
   bgColor: string;  // rgba for card tint
+  source?: DataSource; // GitHub source the value is derived from
+  distribution?: number[]; // Histogram counts for the mini-chart, one per DURATION_BINS slot
+  distributionNoun?: string; // What the histogram counts ("PR" by default)
 }
 
 interface MetricGridProps {
   metrics: RawMetrics;
   report: VitalityReport;
+  sources?: SourceStatusMap;
+  prTimings?: PRTimings;
+  issueFlow?: IssueFlow;
   className?: string;
 }
 
+const UNAVAILABLE_COLOR = "#4a5080";
+
+// Upper bounds in hours for the duration mini-chart bins
+const DURATION_BINS = [
+  { max: 1, label: "<1h" },
+  { max: 4, label: "<4h" },
+  { max: 24, label: "<1d" },
+  { max: 72, label: "<3d" },
+  { max: 168, label: "<1w" },
+  { max: Infinity, label: "1w+" },
+];
+
+function histogram(hours: number[]): number[] {
+  const counts = DURATION_BINS.map(() => 0);
+  for (const h of hours) {
+    counts[DURATION_BINS.findIndex((bin) => h < bin.max)]++;
+  }
+  return counts;
+}
+
 const TREND_ICONS = { up: "↑", down: "↓", flat: "→" };
 const TREND_COLORS = {
   up: "#00ff9d",
@@ -101,6 +142,11 @@ function MetricCard({ card, index }: { card: MetricCard; index: number }) {
           >
             {card.value}
           </span>
+          {card.secondaryValue && (
+            <span className="ml-1.5 text-xs font-mono text-pulse-muted">
+              {card.secondaryValue}
+            </span>
+          )}
         </div>
 
         {/* Label */}
@@ -110,6 +156,15 @@ function MetricCard({ card, index }: { card: MetricCard; index: number }) {
         {card.sublabel && (
           <p className="text-xs text-pulse-muted mt-0.5">{card.sublabel}</p>
         )}
+
+        {/* Distribution mini-chart */}
+        {card.distribution && (
+          <DistributionChart
+            counts={card.distribution}
+            color={card.color}
+            noun={card.distributionNoun}
+          />
+        )}
       </div>
 
       {/* Hover glow overlay */}
@@ -123,30 +178,108 @@ function MetricCard({ card, index }: { card: MetricCard; index: number }) {
   );
 }
 
+// ── DURATION DISTRIBUTION MINI-CHART ──────────────────────────────────────────
+function DistributionChart({
+  counts,
+  color,
+  noun = "PR",
+}: {
+  counts: number[];
+  color: string;
+  noun?: string;
+}) {
+  const peak = Math.max(1, ...counts);
+
+  return (
+    <div className="mt-3">
+      <div className="flex items-end gap-1 h-8">
+        {counts.map((count, i) => (
+          <motion.div
+            key={DURATION_BINS[i].label}
+            className="flex-1 rounded-t-sm"
+            title={`${DURATION_BINS[i].label}: ${count} ${noun}${count === 1 ? "" : "s"}`}
+            style={{ backgroundColor: count > 0 ? color : "rgba(30,34,64,0.8)", minHeight: 2 }}
+            initial={{ height: 0 }}
+            animate={{ height: `${(count / peak) * 100}%` }}
+            transition={{ duration: 0.6, delay: 0.3 + i * 0.05, ease: "easeOut" }}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between mt-1 text-[9px] font-mono text-pulse-muted">
+        <span>{DURATION_BINS[0].label}</span>
+        <span>{DURATION_BINS[DURATION_BINS.length - 1].label}</span>
+      </div>
+    </div>
+  );
+}
+
 // ── VITALITY BREAKDOWN CARD ───────────────────────────────────────────────────
 function VitalityBreakdown({ report }: { report: VitalityReport }) {
-  const { breakdown, score, stateConfig } = report;
+  const { breakdown, score, stateConfig, profile } = report;
+  const { weights } = profile;
 
-  const items = [
+  const items: {
+    term: ScoreTerm;
+    label: string;
+    value: number;
+    color: string;
+    positive: boolean;
+  }[] = [
     {
-      label: "Commits ×0.5",
+      term: "commitContribution",
+      label: `Commits ×${weights.commits}`,
       value: breakdown.commitContribution,
       color: "#6c63ff",
       positive: true,
     },
     {
-      label: "PRs Merged ×0.3",
+      term: "prContribution",
+      label: `PRs Merged ×${weights.prsMerged}`,
       value: breakdown.prContribution,
       color: "#00d4ff",
       positive: true,
     },
     {
-      label: "Stale Issues ×0.2",
+      term: "stalePenalty",
+      label: `Stale Issues ×${weights.staleIssues}`,
       value: -breakdown.stalePenalty,
       color: "#ff4069",
       positive: false,
     },
+    {
+      term: "stalePrPenalty",
+      label: `Stale Open PRs ×${weights.stalePRs}`,
+      value: -breakdown.stalePrPenalty,
+      color: "#ff6b35",
+      positive: false,
+    },
+    {
+      term: "responsiveness",
+      label: "Responsiveness",
+      value: breakdown.responsiveness,
+      color: breakdown.responsiveness >= 0 ? "#00ff9d" : "#ff4069",
+      positive: breakdown.responsiveness >= 0,
+    },
   ];
+  // Profiles that don't score releases leave the term out entirely
+  if (weights.releases !== 0) {
+    items.push({
+      term: "releaseContribution",
+      label: weights.releases === 1 ? "Releases" : `Releases ×${weights.releases}`,
+      value: breakdown.releaseContribution,
+      color: breakdown.releaseContribution >= 0 ? "#b47eff" : "#ff4069",
+      positive: breakdown.releaseContribution >= 0,
+    });
+  }
+  if (breakdown.communityContribution !== null) {
+    items.push({
+      term: "communityContribution",
+      label: "Community",
+      value: breakdown.communityContribution,
+      color: breakdown.communityContribution >= 0 ? "#00ff9d" : "#ff4069",
+      positive: breakdown.communityContribution >= 0,
+    });
+  }
 
   return (
     <motion.div
@@ -175,30 +308,40 @@ function VitalityBreakdown({ report }: { report: VitalityReport }) {
             style={{ color: stateConfig.glowColor }}
           >
             V = {score > 0 ? "+" : ""}{score}
+            {report.provisional.length > 0 && (
+              <span className="ml-1 text-xs font-normal text-amber-300">provisional</span>
+            )}
           </span>
         </div>
 
         {/* Formula display */}
         <div className="font-mono text-xs text-pulse-muted mb-4 p-2 rounded-lg bg-pulse-void/50 border border-pulse-border">
-          V = (Commits × 0.5) + (PR_Merged × 0.3) − (Stale_Issues × 0.2)
+          {formatFormula(profile, { communityTerm: breakdown.communityContribution !== null })}
         </div>
 
         {/* Breakdown bars */}
         <div className="space-y-3">
           {items.map((item) => {
+            const missing = report.provisional.includes(item.term);
             const absValue = Math.abs(item.value);
-            const barWidth = Math.min(100, (absValue / 80) * 100);
+            const barWidth = missing ? 0 : Math.min(100, (absValue / 80) * 100);
 
             return (
               <div key={item.label}>
                 <div className="flex items-center justify-between mb-1">
                   <span className="text-xs text-pulse-ghost">{item.label}</span>
-                  <span
-                    className="text-xs font-mono font-medium"
-                    style={{ color: item.color }}
-                  >
-                    {item.positive ? "+" : ""}{item.value.toFixed(1)}
-                  </span>
+                  {missing ? (
+                    <span className="text-xs font-mono font-medium" style={{ color: UNAVAILABLE_COLOR }}>
+                      — unavailable
+                    </span>
+                  ) : (
+                    <span
+                      className="text-xs font-mono font-medium"
+                      style={{ color: item.color }}
+                    >
+                      {item.positive ? "+" : ""}{item.value.toFixed(1)}
+                    </span>
+                  )}
                 </div>
                 <div className="h-1.5 bg-pulse-border rounded-full overflow-hidden">
                   <motion.div
@@ -218,11 +361,38 @@ function VitalityBreakdown({ report }: { report: VitalityReport }) {
   );
 }
 
+// Swaps a card's value for an "unavailable" marker when its source failed,
+// or "n/a" when the forge does not offer it
+function markUnavailable(card: MetricCard, sources?: SourceStatusMap): MetricCard {
+  const status = card.source && sources?.[card.source];
+  if (!status || status.ok) return card;
+  return {
+    ...card,
+    value: "—",
+    sublabel: status.applicable ? "Unavailable" : "Not available on this forge",
+    secondaryValue: undefined,
+    trend: undefined,
+    distribution: undefined,
+    color: UNAVAILABLE_COLOR,
+    bgColor: "rgba(74, 80, 128, 0.1)",
+  };
+}
+
 // ── MAIN COMPONENT ────────────────────────────────────────────────────────────
-export default function MetricGrid({ metrics, report, className = "" }: MetricGridProps) {
+export default function MetricGrid({
+  metrics,
+  report,
+  sources,
+  prTimings,
+  issueFlow,
+  className = "",
+}: MetricGridProps) {
+  const { flow } = report;
+
   const cards: MetricCard[] = [
     {
       id: "stars",
+      source: "repo",
       label: "Total Stars",
       value: formatMetricValue(metrics.totalStars),
       sublabel: "GitHub stargazers",
@@ -233,9 +403,18 @@ export default function MetricGrid({ metrics, report, className = "" }: MetricGr
     },
     {
       id: "commits",
+      source: "commits",
       label: "Commits (30d)",
       value: metrics.commits,
-      sublabel: "Last 30 days",
+      // A quiet window says when the repo last moved
+      sublabel:
+        metrics.commits > 0
+          ? "Last 30 days"
+          : metrics.lastCommitDate
+          ? `Last commit ${relativeTime(metrics.lastCommitDate)}`
+          : metrics.neverCommitted
+          ? "No commits yet"
+          : "Last commit unknown",
       icon: "💾",
       trend: metrics.commits > 20 ? "up" : metrics.commits > 5 ? "flat" : "down",
       color: "#6c63ff",
@@ -243,6 +422,7 @@ export default function MetricGrid({ metrics, report, className = "" }: MetricGr
     },
     {
       id: "prs",
+      source: "prs",
       label: "PRs Merged",
       value: metrics.prsMerged,
       sublabel: "Last 30 days",
@@ -253,6 +433,7 @@ export default function MetricGrid({ metrics, report, className = "" }: MetricGr
     },
     {
       id: "forks",
+      source: "repo",
       label: "Total Forks",
       value: formatMetricValue(metrics.totalForks),
       sublabel: "Ecosystem reach",
@@ -263,6 +444,7 @@ export default function MetricGrid({ metrics, report, className = "" }: MetricGr
     },
     {
       id: "issues",
+      source: "issues",
       label: "Open Issues",
       value: metrics.totalIssues,
       sublabel: `${metrics.staleIssues} stale (>30d)`,
@@ -276,19 +458,154 @@ export default function MetricGrid({ metrics, report, className = "" }: MetricGr
     },
     {
       id: "contributors",
+      source: "commits",
       label: "Contributors",
       value: metrics.contributors,
-      sublabel: "Active authors",
+      secondaryValue:
+        sources?.contributors.ok === false
+          ? undefined
+          : `/ ${formatMetricValue(metrics.allTimeContributors)} all-time`,
+      sublabel: "Active authors (30d)",
       icon: "👥",
       trend: metrics.contributors > 10 ? "up" : "flat",
       color: "#b47eff",
       bgColor: "rgba(180, 126, 255, 0.1)",
     },
+    {
+      id: "merge-time",
+      source: "prs",
+      label: "Time to Merge",
+      value: formatDuration(flow.medianMergeHours),
+      sublabel: `median · p90 ${formatDuration(flow.p90MergeHours)}`,
+      icon: "⏱️",
+      trend: flow.rating === "fast" ? "up" : flow.rating === "slow" ? "down" : "flat",
+      color: "#00d4ff",
+      bgColor: "rgba(0, 212, 255, 0.1)",
+      distribution: prTimings && histogram(prTimings.mergeHours),
+    },
+    {
+      id: "review-time",
+      source: "prs",
+      label: "First Review",
+      value: formatDuration(flow.medianFirstReviewHours),
+      sublabel: `median · p90 ${formatDuration(flow.p90FirstReviewHours)}`,
+      icon: "👀",
+      trend:
+        flow.medianFirstReviewHours === null
+          ? undefined
+          : flow.medianFirstReviewHours <= 24
+          ? "up"
+          : flow.medianFirstReviewHours > 72
+          ? "down"
+          : "flat",
+      color: "#6c63ff",
+      bgColor: "rgba(108, 99, 255, 0.1)",
+      distribution: prTimings && histogram(prTimings.firstReviewHours),
+    },
+    {
+      id: "response-time",
+      source: "issueFlow",
+      label: "First Response",
+      value: formatDuration(metrics.issueMedianResponseHours),
+      sublabel: `median · p90 ${formatDuration(metrics.issueP90ResponseHours)}`,
+      icon: "💬",
+      trend:
+        metrics.issueMedianResponseHours === null
+          ? undefined
+          : metrics.issueMedianResponseHours <= 24
+          ? "up"
+          : metrics.issueMedianResponseHours > 168
+          ? "down"
+          : "flat",
+      color: "#00ff9d",
+      bgColor: "rgba(0, 255, 157, 0.1)",
+      distribution: issueFlow && histogram(issueFlow.responseHours),
+      distributionNoun: "issue",
+    },
+    {
+      id: "issue-flow",
+      source: "issueFlow",
+      label: "Issue Backlog (30d)",
+      value: `${metrics.issueBacklogGrowth > 0 ? "+" : ""}${metrics.issueBacklogGrowth}`,
+      secondaryValue: `${metrics.issuesOpened} in / ${metrics.issuesClosed} out`,
+      sublabel:
+        issueFlow && issueFlow.awaitingResponse > 0
+          ? `${issueFlow.awaitingResponse} awaiting a response`
+          : "Net growth",
+      icon: "📥",
+      trend: metrics.issueBacklogGrowth > 0 ? "down" : metrics.issueBacklogGrowth < 0 ? "up" : "flat",
+      color: metrics.issueBacklogGrowth > 0 ? "#ff4069" : "#00ff9d",
+      bgColor:
+        metrics.issueBacklogGrowth > 0
+          ? "rgba(255, 64, 105, 0.1)"
+          : "rgba(0, 255, 157, 0.1)",
+    },
+    {
+      id: "releases",
+      source: "releases",
+      label: "Last Release",
+      value:
+        metrics.daysSinceLastRelease === null
+          ? "never"
+          : metrics.daysSinceLastRelease === 0
+          ? "today"
+          : `${metrics.daysSinceLastRelease}d ago`,
+      secondaryValue: `${metrics.releasesInWindow} in 30d`,
+      sublabel:
+        metrics.releaseMedianIntervalDays === null
+          ? "No cadence yet"
+          : `Every ~${Math.round(metrics.releaseMedianIntervalDays)}d (median)`,
+      icon: "🚀",
+      trend:
+        metrics.daysSinceLastRelease === null
+          ? undefined
+          : metrics.releasesInWindow > 0
+          ? "up"
+          : metrics.releaseMedianIntervalDays !== null &&
+            metrics.daysSinceLastRelease > metrics.releaseMedianIntervalDays * 2
+          ? "down"
+          : "flat",
+      color: "#b47eff",
+      bgColor: "rgba(180, 126, 255, 0.1)",
+    },
+    {
+      id: "ci",
+      source: "ci",
+      label: "CI Health",
+      value: metrics.ciSuccessRate === null ? "—" : `${metrics.ciSuccessRate}%`,
+      secondaryValue:
+        metrics.ciMeanRecoveryHours === null
+          ? undefined
+          : `MTTR ${formatDuration(metrics.ciMeanRecoveryHours)}`,
+      sublabel:
+        metrics.ciBrokenStreak > 0
+          ? `Red for ${metrics.ciBrokenStreak} commit${metrics.ciBrokenStreak === 1 ? "" : "s"}`
+          : metrics.ciSuccessRate === null
+          ? "No Actions runs (30d)"
+          : "Default branch green",
+      icon: metrics.ciBrokenStreak > 0 ? "🔴" : "🟢",
+      trend:
+        metrics.ciSuccessRate === null
+          ? undefined
+          : metrics.ciBrokenStreak > 0
+          ? "down"
+          : metrics.ciSuccessRate >= 90
+          ? "up"
+          : "flat",
+      color: metrics.ciBrokenStreak > 0 ? "#ff4069" : "#00ff9d",
+      bgColor:
+        metrics.ciBrokenStreak > 0
+          ? "rgba(255, 64, 105, 0.1)"
+          : "rgba(0, 255, 157, 0.1)",
+    },
     {
       id: "vitality",
       label: "Vitality Score",
       value: `${report.normalizedScore.toFixed(0)}%`,
-      sublabel: report.stateConfig.label,
+      sublabel:
+        report.provisional.length > 0
+          ? `${report.stateConfig.label} · provisional`
+          : report.stateConfig.label,
       icon: "🧬",
       trend: report.trend === "rising" ? "up" : report.trend === "falling" ? "down" : "flat",
       color: report.stateConfig.glowColor,
@@ -321,7 +638,7 @@ export default function MetricGrid({ metrics, report, className = "" }: MetricGr
       animate="visible"
     >
       {cards.map((card, i) => (
-        <MetricCard key={card.id} card={card} index={i} />
+        <MetricCard key={card.id} card={markUnavailable(card, sources)} index={i} />
       ))}
 
       {/* Full-width vitality breakdown card */}
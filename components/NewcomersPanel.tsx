@@ -0,0 +1,110 @@
+// FILE: components/NewcomersPanel.tsx
+"use client";
+
+import { motion } from "framer-motion";
+import type { NewcomerFunnel } from "@/lib/github-client";
+
+interface NewcomersPanelProps {
+  funnel: NewcomerFunnel;
+  glowColor?: string;
+  className?: string;
+}
+
+// ── FUNNEL ROW ────────────────────────────────────────────────────────────────
+function FunnelRow({
+  label,
+  value,
+  total,
+  color,
+  delay,
+}: {
+  label: string;
+  value: number;
+  total: number;
+  color: string;
+  delay: number;
+}) {
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-1">
+        <span className="text-xs text-pulse-ghost">{label}</span>
+        <span className="text-xs font-mono font-medium" style={{ color }}>
+          {value}
+        </span>
+      </div>
+      <div className="h-1.5 bg-pulse-border rounded-full overflow-hidden">
+        <motion.div
+          className="h-full rounded-full"
+          style={{ backgroundColor: color }}
+          initial={{ width: 0 }}
+          animate={{ width: `${total > 0 ? (value / total) * 100 : 0}%` }}
+          transition={{ duration: 0.8, delay, ease: "easeOut" }}
+        />
+      </div>
+    </div>
+  );
+}
+
+// ── MAIN COMPONENT ────────────────────────────────────────────────────────────
+export default function NewcomersPanel({
+  funnel,
+  glowColor = "#6c63ff",
+  className = "",
+}: NewcomersPanelProps) {
+  const mergeRate = funnel.opened > 0 ? Math.round((funnel.merged / funnel.opened) * 100) : null;
+
+  return (
+    <motion.div
+      className={`glass-card p-4 sm:p-5 ${className}`}
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.4, delay: 0.35, ease: "easeOut" }}
+    >
+      <div className="section-header">
+        <span className="text-base">🌱</span>
+        <h2
+          className="text-sm font-semibold uppercase tracking-wider"
+          style={{ fontFamily: "'Space Grotesk', sans-serif", color: glowColor }}
+        >
+          Newcomers
+        </h2>
+        {mergeRate !== null && (
+          <span className="ml-auto text-xs font-mono text-pulse-muted">
+            {mergeRate}% merged
+          </span>
+        )}
+      </div>
+
+      {funnel.opened === 0 ? (
+        <p className="text-sm text-pulse-muted">
+          No first-time pull requests in the last 30 days.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          <FunnelRow label="First-time PRs opened" value={funnel.opened} total={funnel.opened} color="#00d4ff" delay={0.3} />
+          <FunnelRow label="Merged" value={funnel.merged} total={funnel.opened} color="#00ff9d" delay={0.4} />
+          <FunnelRow label="Still open" value={funnel.pending} total={funnel.opened} color="#ffb830" delay={0.5} />
+          <FunnelRow label="Abandoned" value={funnel.abandoned} total={funnel.opened} color="#ff4069" delay={0.6} />
+        </div>
+      )}
+
+      {funnel.newContributors.length > 0 && (
+        <div className="mt-4">
+          <p className="text-xs text-pulse-muted mb-2">Welcome aboard</p>
+          <div className="flex flex-wrap gap-2">
+            {funnel.newContributors.map((login) => (
+              <span key={login} className="metric-chip text-xs" style={{ color: "#00ff9d" }}>
+                @{login}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <p className="mt-4 text-xs text-pulse-muted">
+        {funnel.firstTimeReporters} first-time issue reporter
+        {funnel.firstTimeReporters === 1 ? "" : "s"} this window
+      </p>
+    </motion.div>
+  );
+}
@@ -0,0 +1,122 @@
+// FILE: components/PRBacklog.tsx
+"use client";
+
+import { motion } from "framer-motion";
+import { relativeTime } from "@/lib/vitality-engine";
+import type { PRBacklog as PRBacklogData, ReviewState } from "@/lib/github-client";
+
+interface PRBacklogProps {
+  backlog: PRBacklogData;
+  glowColor?: string;
+  className?: string;
+}
+
+const REVIEW_STATE_CONFIG: Record<ReviewState, { label: string; color: string }> = {
+  "awaiting-review": { label: "awaiting review", color: "#ffb830" },
+  "changes-requested": { label: "changes requested", color: "#ff4069" },
+  approved: { label: "approved", color: "#00ff9d" },
+  unknown: { label: "unreviewed", color: "#4a5080" },
+};
+
+// ── MAIN COMPONENT ────────────────────────────────────────────────────────────
+export default function PRBacklog({
+  backlog,
+  glowColor = "#6c63ff",
+  className = "",
+}: PRBacklogProps) {
+  const chips = [
+    { label: "open", value: backlog.open, color: "#00d4ff" },
+    { label: "draft", value: backlog.draft, color: "#8b92b8" },
+    { label: "awaiting review", value: backlog.awaitingReview, color: "#ffb830" },
+    { label: "changes requested", value: backlog.changesRequested, color: "#ff4069" },
+    { label: `stale >${backlog.staleAfterDays}d`, value: backlog.stale, color: "#ff4069" },
+  ];
+
+  return (
+    <motion.div
+      className={`glass-card ${className}`}
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.4, delay: 0.3, ease: "easeOut" }}
+    >
+      <div className="p-4 sm:p-5 border-b border-pulse-border">
+        <div className="section-header">
+          <span className="text-base">🧱</span>
+          <h2
+            className="text-sm font-semibold uppercase tracking-wider"
+            style={{ fontFamily: "'Space Grotesk', sans-serif", color: glowColor }}
+          >
+            PR Backlog
+          </h2>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {chips.map((chip) => (
+            <span
+              key={chip.label}
+              className="metric-chip text-xs"
+              style={{
+                color: chip.value > 0 ? chip.color : "#4a5080",
+                borderColor: `${chip.color}33`,
+              }}
+            >
+              <span className="font-mono font-semibold">{chip.value}</span> {chip.label}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {backlog.oldest.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-8 text-pulse-muted">
+          <span className="text-2xl mb-2">✨</span>
+          <p className="text-sm">No open pull requests.</p>
+        </div>
+      ) : (
+        <ul className="divide-y divide-pulse-border">
+          {backlog.oldest.slice(0, 5).map((pr) => {
+            const review = REVIEW_STATE_CONFIG[pr.reviewState];
+            return (
+              <li key={pr.number}>
+                <a
+                  href={pr.url !== "#" ? pr.url : undefined}
+                  target={pr.url !== "#" ? "_blank" : undefined}
+                  rel="noopener noreferrer"
+                  className="flex items-start justify-between gap-3 px-4 sm:px-5 py-3 hover:bg-pulse-surface/40 transition-colors"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm text-pulse-pure font-medium leading-snug truncate">
+                      #{pr.number}: {pr.title}
+                    </p>
+                    <div className="flex items-center gap-2 mt-1 flex-wrap">
+                      <span className="text-xs text-pulse-ghost">@{pr.author}</span>
+                      {pr.isDraft ? (
+                        <span className="metric-chip text-xs">draft</span>
+                      ) : (
+                        <span
+                          className="metric-chip text-xs"
+                          style={{ color: review.color, borderColor: `${review.color}44` }}
+                        >
+                          {review.label}
+                        </span>
+                      )}
+                      {pr.isStale && (
+                        <span
+                          className="metric-chip text-xs"
+                          style={{ color: "#ff4069", borderColor: "#ff406944", backgroundColor: "#ff406912" }}
+                        >
+                          ⚠ stale
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  <span className="text-xs text-pulse-muted flex-shrink-0">
+                    opened {relativeTime(pr.createdAt)}
+                  </span>
+                </a>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,7 @@
+// FILE: env.d.ts
+// Cloudflare bindings declared in wrangler.toml, exposed through
+// getRequestContext().env from @cloudflare/next-on-pages.
+
+interface CloudflareEnv {
+  DASHBOARD_CACHE?: KVNamespace;
+}
@@ -0,0 +1,61 @@
+// FILE: lib/contributor-concentration.ts
+
+/**
+ * NexusPulse Contributor Concentration
+ * ─────────────────────────────────────────────────────────
+ * How evenly the scoring window's commits are spread across authors.
+ * A burst of activity from a single maintainer looks healthy on raw
+ * counts; these figures expose it.
+ *
+ *   Bus factor — fewest authors who together wrote ≥ 50% of commits
+ *   Gini       — 0 (everyone commits equally) … 1 (one author does it all)
+ *   Top share  — the most active author's share of commits, in percent
+ */
+
+export interface AuthorCommits {
+  author: string;
+  commits: number;
+}
+
+export interface ContributorConcentration {
+  busFactor: number;             // 0 when the window has no commits
+  gini: number | null;           // null when the window has no commits
+  topAuthorShare: number | null; // 0–100
+  topAuthor: string | null;
+}
+
+// ── ANALYSIS ──────────────────────────────────────────────────────────────────
+export function analyzeConcentration(authors: AuthorCommits[]): ContributorConcentration {
+  const ranked = authors.filter((a) => a.commits > 0).sort((a, b) => b.commits - a.commits);
+  const total = ranked.reduce((sum, a) => sum + a.commits, 0);
+
+  if (total === 0) {
+    return { busFactor: 0, gini: null, topAuthorShare: null, topAuthor: null };
+  }
+
+  let busFactor = 0;
+  let covered = 0;
+  while (covered * 2 < total) {
+    covered += ranked[busFactor].commits;
+    busFactor++;
+  }
+
+  return {
+    busFactor,
+    gini: Math.round(gini(ranked.map((a) => a.commits)) * 100) / 100,
+    topAuthorShare: Math.round((ranked[0].commits / total) * 1000) / 10,
+    topAuthor: ranked[0].author,
+  };
+}
+
+// Mean-difference form over ascending values: Σ (2i − n − 1)·xᵢ / (n·Σx).
+// Only authors who committed are counted, so the formula gives 0 for a lone
+// author; that is as concentrated as commits get, so it reads as 1 instead.
+function gini(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const n = sorted.length;
+  if (n === 1) return 1;
+  const total = sorted.reduce((sum, v) => sum + v, 0);
+  const weighted = sorted.reduce((sum, v, i) => sum + (2 * (i + 1) - n - 1) * v, 0);
+  return weighted / (n * total);
+}
@@ -0,0 +1,160 @@
+// FILE: lib/dashboard-cache.ts
+
+/**
+ * NexusPulse Dashboard Cache — Cloudflare KV, stale-while-revalidate
+ * ─────────────────────────────────────────────────────────
+ * Stores the assembled FullDashboardData per forge/owner/repo/window.
+ *
+ *   age < FRESH_TTL          → serve (hit)
+ *   age < STALE_TTL          → serve (stale) + refresh via waitUntil
+ *   otherwise / no binding   → fetch inline (miss / bypass)
+ *
+ * One refresh per key at a time: an in-isolate set covers concurrent stale
+ * hits here, a short-lived KV marker those in other isolates.
+ *
+ * Signed-in viewers skip KV entirely (private): their token may reach
+ * private repos, and a shared key would hand that data to everyone.
+ *
+ * Webhooks (app/api/webhooks/github) drop a repo's snapshot as soon as it
+ * changes, together with the Next data-cache entries tagged for it.
+ */
+
+import { revalidateTag } from "next/cache";
+import { getOptionalRequestContext } from "@cloudflare/next-on-pages";
+import {
+  WINDOW_DAYS,
+  type CacheInfo,
+  type FetchOptions,
+  type FullDashboardData,
+  type GitHubRepo,
+} from "./github-client";
+import type { ForgeKind, ForgeProvider } from "./forge-provider";
+
+const FRESH_TTL_SECONDS = 300;
+const STALE_TTL_SECONDS = 24 * 60 * 60; // KV evicts the snapshot after a day
+const CACHE_VERSION = "v13";             // Bump when FullDashboardData changes shape
+const REFRESH_MARKER_SECONDS = 60;       // KV's shortest expiration; outlives a slow load
+
+// Stale keys this isolate is refreshing right now
+const refreshing = new Set<string>();
+
+interface CacheEntry {
+  storedAt: number; // epoch ms
+  data: FullDashboardData;
+}
+
+export function dashboardCacheKey(
+  forge: ForgeKind,
+  target: GitHubRepo,
+  windowDays: number = WINDOW_DAYS
+): string {
+  const host = target.host ? `${target.host.toLowerCase()}/` : "";
+  return `dashboard:${CACHE_VERSION}:${forge}:${host}${target.owner.toLowerCase()}/${target.repo.toLowerCase()}:${windowDays}d`;
+}
+
+// Tags the upstream responses behind one dashboard in Next's data cache
+export function dashboardCacheTag(forge: ForgeKind, target: GitHubRepo): string {
+  const host = target.host ? `${target.host.toLowerCase()}/` : "";
+  return `dashboard:${forge}:${host}${target.owner.toLowerCase()}/${target.repo.toLowerCase()}`;
+}
+
+function withCacheInfo(
+  data: FullDashboardData,
+  status: CacheInfo["status"],
+  ageSeconds: number
+): FullDashboardData {
+  return { ...data, cache: { status, ageSeconds, ttlSeconds: FRESH_TTL_SECONDS } };
+}
+
+// Mock or partial snapshots would pin bad data for a whole day, and a
+// private repo's data must never sit under a key anyone can read. Sources
+// the forge does not offer don't make a snapshot partial.
+export function isCacheable(data: FullDashboardData): boolean {
+  return (
+    !data.isMockData &&
+    !data.repo.isPrivate &&
+    Object.values(data.sources).every((s) => s.ok || !s.applicable)
+  );
+}
+
+async function store(kv: KVNamespace, key: string, data: FullDashboardData) {
+  if (!isCacheable(data)) return;
+
+  const entry: CacheEntry = { storedAt: Date.now(), data: { ...data, cache: null } };
+  await kv.put(key, JSON.stringify(entry), { expirationTtl: STALE_TTL_SECONDS });
+}
+
+// Failed refreshes keep the marker until it expires, so retries back off too
+async function refresh(kv: KVNamespace, key: string, load: () => Promise<FullDashboardData>) {
+  const marker = `${key}:refreshing`;
+  if (await kv.get(marker)) return;
+  await kv.put(marker, "1", { expirationTtl: REFRESH_MARKER_SECONDS });
+
+  await store(kv, key, await load());
+  await kv.delete(marker);
+}
+
+// ── CACHED LOADER ─────────────────────────────────────────────────────────────
+export async function getDashboardData(
+  provider: ForgeProvider,
+  target: GitHubRepo,
+  requested: FetchOptions = {}
+): Promise<FullDashboardData> {
+  const options = { ...requested, cacheTag: dashboardCacheTag(provider.kind, target) };
+
+  if (options.viewerToken) {
+    return withCacheInfo(await provider.fetchDashboard(target, options), "private", 0);
+  }
+
+  const context = getOptionalRequestContext();
+  const kv = context?.env.DASHBOARD_CACHE;
+
+  if (!kv) {
+    return withCacheInfo(await provider.fetchDashboard(target, options), "bypass", 0);
+  }
+
+  const key = dashboardCacheKey(provider.kind, target);
+  let entry: CacheEntry | null = null;
+  try {
+    entry = await kv.get<CacheEntry>(key, "json");
+  } catch (error) {
+    console.error("[NexusPulse] Cache read failed:", error);
+  }
+
+  if (entry) {
+    const ageSeconds = Math.round((Date.now() - entry.storedAt) / 1000);
+
+    if (ageSeconds < FRESH_TTL_SECONDS) {
+      return withCacheInfo(entry.data, "hit", ageSeconds);
+    }
+
+    // Serve the old snapshot now; the refresh outlives the response
+    if (!refreshing.has(key)) {
+      refreshing.add(key);
+      context.ctx.waitUntil(
+        refresh(kv, key, () => provider.fetchDashboard(target, options))
+          .catch((error) => console.error("[NexusPulse] Background refresh failed:", error))
+          .finally(() => refreshing.delete(key))
+      );
+    }
+    return withCacheInfo(entry.data, "stale", ageSeconds);
+  }
+
+  const data = await provider.fetchDashboard(target, options);
+  try {
+    await store(kv, key, data);
+  } catch (error) {
+    console.error("[NexusPulse] Cache write failed:", error);
+  }
+  return withCacheInfo(data, "miss", 0);
+}
+
+// ── INVALIDATION ──────────────────────────────────────────────────────────────
+// The next view loads inline (miss) from upstream instead of a snapshot;
+// nothing is refetched here, so bursts of events cost no API quota
+export async function invalidateDashboard(forge: ForgeKind, target: GitHubRepo): Promise<void> {
+  revalidateTag(dashboardCacheTag(forge, target));
+
+  const kv = getOptionalRequestContext()?.env.DASHBOARD_CACHE;
+  if (kv) await kv.delete(dashboardCacheKey(forge, target));
+}
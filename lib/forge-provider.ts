@@ -0,0 +1,41 @@
+// FILE: lib/forge-provider.ts
+
+/**
+ * NexusPulse Forge Providers
+ * ─────────────────────────────────────────────────────────
+ * A provider turns a repository address on one forge into
+ * FullDashboardData. Each collects in its own API and hands the results,
+ * normalized to GitHub REST shapes, to the shared assembler in
+ * lib/github-client.
+ *
+ *   github  →  /owner/repo               lib/github-client
+ *   gitlab  →  /gitlab/group/…/project   lib/gitlab-client
+ *   gitea   →  /gitea/host/owner/repo    lib/gitea-client
+ *   local   →  /local/name               lib/local-git-client
+ */
+
+import {
+  fetchDashboardData,
+  type FetchOptions,
+  type ForgeKind,
+  type FullDashboardData,
+  type GitHubRepo,
+} from "./github-client";
+import { fetchGiteaDashboardData } from "./gitea-client";
+import { fetchGitLabDashboardData } from "./gitlab-client";
+import { fetchLocalDashboardData } from "./local-git-client";
+
+export type { ForgeKind } from "./github-client";
+
+export interface ForgeProvider {
+  kind: ForgeKind;
+  label: string; // Forge name shown in error screens
+  fetchDashboard(target: GitHubRepo, options?: FetchOptions): Promise<FullDashboardData>;
+}
+
+export const FORGE_PROVIDERS: Record<ForgeKind, ForgeProvider> = {
+  github: { kind: "github", label: "GitHub", fetchDashboard: fetchDashboardData },
+  gitlab: { kind: "gitlab", label: "GitLab", fetchDashboard: fetchGitLabDashboardData },
+  gitea: { kind: "gitea", label: "Gitea", fetchDashboard: fetchGiteaDashboardData },
+  local: { kind: "local", label: "Local git", fetchDashboard: fetchLocalDashboardData },
+};
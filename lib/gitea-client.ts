@@ -0,0 +1,512 @@
+// FILE: lib/gitea-client.ts
+
+/**
+ * NexusPulse Gitea Adapter — API v1 (Gitea, Forgejo, Codeberg)
+ * ─────────────────────────────────────────────────────────
+ * Gitea's API deliberately mirrors GitHub's, so most responses already
+ * arrive in the REST v3 shapes the assembler understands. The gaps:
+ *
+ *   - no author_association: collaborators plus the repo owner count as
+ *     maintainers, and a newcomer has no merged PR from before the window
+ *   - no Actions runs API everywhere: CI health is read from the combined
+ *     commit status of the newest default-branch commits
+ *   - no contributors API: that source is reported not applicable
+ *
+ * Instances are configured per hostname with the GITEA_INSTANCES env var:
+ *   {"git.example.com":{"token":"…"},"localhost":{"apiUrl":"http://localhost:4012/api/v1"}}
+ * apiUrl defaults to https://<host>/api/v1; without a token the instance is
+ * read anonymously (public repos only), and "mock" switches to mock data.
+ * codeberg.org is available out of the box.
+ */
+
+import {
+  SourceNotApplicableError,
+  WINDOW_DAYS,
+  assembleDashboard,
+  buildMockDashboard,
+  type CollectedIssue,
+  type CollectedOpenPR,
+  type CollectedPR,
+  type CollectedRelease,
+  type CollectedWindowPR,
+  type CommitHistory,
+  type FetchOptions,
+  type FullDashboardData,
+  type GHActor,
+  type GHCommit,
+  type GHIssue,
+  type GHIssueEvent,
+  type GHPR,
+  type GHRelease,
+  type GHRepo,
+  type GHWorkflowRun,
+  type GitHubRepo,
+  type ReviewState,
+} from "./github-client";
+import { GitHubNotFoundError } from "./github-errors";
+import { ghFetch, ghRequest, parseNextLink, type GHSession } from "./github-transport";
+
+export interface GiteaInstance {
+  apiUrl: string;
+  token: string | null; // null reads anonymously
+}
+
+const DEFAULT_INSTANCES: Record<string, Partial<GiteaInstance>> = {
+  "codeberg.org": {},
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PER_PAGE = 50;              // Gitea's default MAX_RESPONSE_ITEMS
+const MAX_COMMIT_PAGES = 20;      // Same 1,000-commit cap as GitHub
+const MAX_MERGED_PR_PAGES = 20;   // Same 1,000-PR cap as GitHub
+const MAX_REVIEW_LOOKUPS = 30;    // One reviews call per PR
+const MAX_OPEN_PR_PAGES = 6;      // Oldest 300 open PRs
+const MAX_ISSUE_PAGES = 6;
+const MAX_RESPONSE_LOOKUPS = 30;  // One timeline call per issue
+const MAX_STATUS_LOOKUPS = 20;    // One combined-status call per commit
+const MAX_WINDOW_PR_PAGES = 4;
+const MAX_NEWCOMER_LOOKUPS = 15;
+const MAX_TAGS = 10;
+
+// Timeline entry types mapped to the REST issue event names
+const TRIAGE_EVENT_NAMES: Record<string, string> = {
+  label: "labeled",
+  assignees: "assigned",
+  milestone: "milestoned",
+  close: "closed",
+};
+
+// Reviews that are not a verdict or comment from the reviewer yet
+const UNSUBMITTED_REVIEWS = new Set(["PENDING", "REQUEST_REVIEW"]);
+
+// ── INSTANCES ─────────────────────────────────────────────────────────────────
+// Only configured hosts are reachable — the route must not turn the edge
+// worker into a proxy for arbitrary URLs
+export function resolveGiteaInstance(
+  host: string,
+  raw: string | undefined = process.env.GITEA_INSTANCES
+): GiteaInstance | null {
+  let instances = DEFAULT_INSTANCES;
+  if (raw) {
+    try {
+      instances = { ...DEFAULT_INSTANCES, ...(JSON.parse(raw) as Record<string, Partial<GiteaInstance>>) };
+    } catch (error) {
+      console.error("[NexusPulse] Ignoring invalid GITEA_INSTANCES:", error);
+    }
+  }
+
+  const entry = instances[host.toLowerCase()];
+  if (!entry) return null;
+  return { apiUrl: entry.apiUrl ?? `https://${host}/api/v1`, token: entry.token ?? null };
+}
+
+// ── TRANSPORT ─────────────────────────────────────────────────────────────────
+// Follows rel="next" links for up to maxPages pages; `done` ends the walk
+// early once a page reaches past what is needed
+async function collectPages<T>(
+  url: string,
+  maxPages: number,
+  session: GHSession,
+  done: (page: T[]) => boolean = () => false
+): Promise<{ items: T[]; truncated: boolean }> {
+  const items: T[] = [];
+  let next: string | null = url;
+  let pages = 0;
+
+  while (next && pages < maxPages) {
+    const { data, headers } = await ghRequest<T[]>(next, session);
+    items.push(...data);
+    next = parseNextLink(headers.get("link"));
+    pages++;
+    if (done(data)) break;
+  }
+
+  return { items, truncated: next !== null };
+}
+
+// ── COLLECTORS ────────────────────────────────────────────────────────────────
+async function fetchRepo(base: string, session: GHSession): Promise<GTRepo> {
+  return ghFetch<GTRepo>(base, session);
+}
+
+function toGHRepo(repo: GTRepo): GHRepo {
+  return {
+    full_name: repo.full_name,
+    private: repo.private,
+    default_branch: repo.default_branch,
+    description: repo.description || null,
+    stargazers_count: repo.stars_count,
+    forks_count: repo.forks_count,
+    html_url: repo.html_url,
+  };
+}
+
+// Without sha the commits endpoint walks the default branch. Older releases
+// ignore `since`, so the walk also stops at the first page past the window.
+async function collectCommits(base: string, since: string, session: GHSession): Promise<CommitHistory> {
+  const { items, truncated } = await collectPages<GHCommit>(
+    `${base}/commits?since=${since}&limit=${PER_PAGE}&stat=false&verification=false&files=false`,
+    MAX_COMMIT_PAGES,
+    session,
+    (page) => page.some((c) => (c.commit.author?.date ?? "") < since)
+  );
+  return {
+    commits: items.filter((c) => (c.commit.author?.date ?? "") >= since),
+    truncated,
+  };
+}
+
+// Closed PRs merged inside the window, with the first submitted non-author
+// review looked up for the most recent MAX_REVIEW_LOOKUPS of them
+async function collectMergedPRs(base: string, since: string, session: GHSession): Promise<CollectedPR[]> {
+  // A merge bumps updated_at, so once a page reaches past the window no
+  // later page can hold a PR merged in it
+  const { items: closed } = await collectPages<GHPR>(
+    `${base}/pulls?state=closed&sort=recentupdate&limit=${PER_PAGE}`,
+    MAX_MERGED_PR_PAGES,
+    session,
+    (page) => page.length > 0 && page[page.length - 1].updated_at < since
+  );
+  const merged = closed
+    .filter((pr) => pr.merged_at !== null && pr.merged_at >= since)
+    .sort((a, b) => (b.merged_at ?? "").localeCompare(a.merged_at ?? ""));
+
+  return Promise.all(
+    merged.map(async (pr, i) => {
+      if (i >= MAX_REVIEW_LOOKUPS) return { ...pr, first_review_at: null };
+      const reviews = await ghFetch<GTReview[]>(`${base}/pulls/${pr.number}/reviews`, session);
+      const first = reviews.find(
+        (r) => r.submitted_at && !UNSUBMITTED_REVIEWS.has(r.state) && r.user?.login !== pr.user?.login
+      );
+      return { ...pr, first_review_at: first?.submitted_at ?? null };
+    })
+  );
+}
+
+// Open PRs, oldest first, with a review state from each reviewer's latest verdict
+async function collectOpenPRs(base: string, session: GHSession): Promise<CollectedOpenPR[]> {
+  const { items: open } = await collectPages<GHPR>(
+    `${base}/pulls?state=open&sort=oldest&limit=${PER_PAGE}`,
+    MAX_OPEN_PR_PAGES,
+    session
+  );
+
+  let lookups = 0;
+  return Promise.all(
+    open.map(async (pr) => {
+      const draft = pr.draft ?? false;
+      if (draft || lookups++ >= MAX_REVIEW_LOOKUPS) {
+        return { ...pr, draft, review_state: "unknown" as ReviewState };
+      }
+      const reviews = await ghFetch<GTReview[]>(`${base}/pulls/${pr.number}/reviews`, session);
+      return { ...pr, draft, review_state: reviewStateFrom(reviews, pr.user?.login) };
+    })
+  );
+}
+
+function reviewStateFrom(reviews: GTReview[], author: string | undefined): ReviewState {
+  const latest = new Map<string, string>();
+  for (const review of reviews) {
+    const reviewer = review.user?.login;
+    if (!reviewer || reviewer === author || review.state === "COMMENT") continue;
+    if (UNSUBMITTED_REVIEWS.has(review.state)) continue;
+    latest.set(reviewer, review.state);
+  }
+
+  const verdicts = [...latest.values()];
+  if (verdicts.includes("REQUEST_CHANGES")) return "changes-requested";
+  if (verdicts.includes("APPROVED")) return "approved";
+  return "awaiting-review";
+}
+
+// Collaborators plus the owner. Anonymous sessions may not list
+// collaborators; the owner alone still counts then.
+async function fetchMaintainers(
+  base: string,
+  repo: Promise<GTRepo>,
+  session: GHSession
+): Promise<Set<string>> {
+  const [{ owner }, collaborators] = await Promise.all([
+    repo,
+    ghFetch<GTUser[]>(`${base}/collaborators?limit=${PER_PAGE}`, session).catch(() => []),
+  ]);
+  return new Set([owner.login, ...collaborators.map((c) => c.login)]);
+}
+
+// Issues opened or closed inside the window. One timeline call per issue
+// holds both comments and triage events.
+async function collectIssueActivity(
+  base: string,
+  since: string,
+  maintainers: Promise<Set<string>>,
+  session: GHSession
+): Promise<CollectedIssue[]> {
+  const [{ items: touched }, members] = await Promise.all([
+    collectPages<GHIssue>(
+      `${base}/issues?state=all&type=issues&since=${since}&limit=${PER_PAGE}`,
+      MAX_ISSUE_PAGES,
+      session
+    ),
+    maintainers,
+  ]);
+
+  // `since` filters on updated_at, which label edits bump
+  const inWindow = touched.filter(
+    (i) => i.created_at >= since || (i.closed_at ?? "") >= since
+  );
+
+  let lookups = 0;
+  return Promise.all(
+    inWindow.map(async (issue) => {
+      if (issue.created_at < since || lookups++ >= MAX_RESPONSE_LOOKUPS) {
+        return { ...issue, comments: null, events: null };
+      }
+      const timeline = await ghFetch<GTTimelineEntry[]>(
+        `${base}/issues/${issue.number}/timeline?limit=${PER_PAGE}`,
+        session
+      );
+      return {
+        ...issue,
+        comments: timeline
+          .filter((t) => t.type === "comment")
+          .map((t) => ({
+            created_at: t.created_at,
+            author_association: t.user && members.has(t.user.login) ? "MEMBER" : "NONE",
+            user: toGHActor(t.user),
+          })),
+        events: timeline
+          .filter((t) => TRIAGE_EVENT_NAMES[t.type])
+          .map((t): GHIssueEvent => ({
+            event: TRIAGE_EVENT_NAMES[t.type],
+            created_at: t.created_at,
+            actor: toGHActor(t.user),
+          })),
+      };
+    })
+  );
+}
+
+// Gitea marks bot accounts with a user type rather than a login suffix
+function toGHActor(user: GTUser | null): GHActor | null {
+  if (!user) return null;
+  return { login: user.login, type: user.type === "bot" ? "Bot" : undefined };
+}
+
+// Published releases, or the newest tags dated by their commit when the repo
+// has never cut one. Gitea tags carry their commit date — no extra lookups.
+async function collectReleases(
+  base: string,
+  webUrl: string,
+  session: GHSession
+): Promise<CollectedRelease[]> {
+  const releases = await ghFetch<GHRelease[]>(`${base}/releases?limit=${PER_PAGE}`, session);
+  const published = releases.filter((r) => !r.draft && r.published_at !== null);
+  if (published.length > 0) return published.map((r) => ({ ...r, from_tag: false }));
+
+  const tags = await ghFetch<GTTag[]>(`${base}/tags?limit=${MAX_TAGS}`, session);
+  return tags.map((tag) => ({
+    tag_name: tag.name,
+    name: null,
+    draft: false,
+    prerelease: false,
+    published_at: tag.commit?.created ?? null,
+    html_url: `${webUrl}/src/tag/${encodeURIComponent(tag.name)}`,
+    author: null,
+    from_tag: true,
+  }));
+}
+
+// One verdict per commit from its combined status — whatever CI posts
+// statuses (Gitea/Forgejo Actions, Woodpecker, Drone) is covered
+async function collectCommitStatuses(
+  base: string,
+  history: Promise<CommitHistory>,
+  repo: Promise<GTRepo>,
+  session: GHSession
+): Promise<GHWorkflowRun[]> {
+  const [{ commits }, { default_branch }] = await Promise.all([history, repo]);
+  const newest = [...commits]
+    .sort((a, b) => (b.commit.author?.date ?? "").localeCompare(a.commit.author?.date ?? ""))
+    .slice(0, MAX_STATUS_LOOKUPS);
+
+  const runs = await Promise.all(
+    newest.map(async (c): Promise<GHWorkflowRun | null> => {
+      const status = await ghFetch<GTCombinedStatus>(`${base}/commits/${c.sha}/status`, session);
+      if (status.statuses.length === 0) return null;
+      return {
+        head_branch: default_branch,
+        head_sha: c.sha,
+        conclusion:
+          status.state === "failure" || status.state === "error" ? "failure" : status.state,
+        created_at: c.commit.author?.date ?? status.statuses[0].created_at,
+        updated_at: status.statuses.map((s) => s.updated_at).sort().reverse()[0],
+      };
+    })
+  );
+  return runs.filter((run): run is GHWorkflowRun => run !== null);
+}
+
+// PRs opened in the window, via the issues endpoint, which carries the
+// merge state. Authors outside the maintainers are checked for a merged PR
+// from before the window; none means they are new here.
+async function collectWindowPRs(
+  base: string,
+  since: string,
+  maintainers: Promise<Set<string>>,
+  session: GHSession
+): Promise<CollectedWindowPR[]> {
+  const [{ items }, members] = await Promise.all([
+    collectPages<GTPullIssue>(
+      `${base}/issues?state=all&type=pulls&since=${since}&limit=${PER_PAGE}`,
+      MAX_WINDOW_PR_PAGES,
+      session
+    ),
+    maintainers,
+  ]);
+  const inWindow = items.filter((pr) => pr.created_at >= since);
+
+  const candidates = [
+    ...new Set(
+      inWindow
+        .map((pr) => pr.user?.login)
+        .filter((login): login is string => !!login && !members.has(login))
+    ),
+  ].slice(0, MAX_NEWCOMER_LOOKUPS);
+
+  const newcomers = new Set<string>();
+  await Promise.all(
+    candidates.map(async (login) => {
+      const earlier = await ghFetch<GTPullIssue[]>(
+        `${base}/issues?state=closed&type=pulls&created_by=${encodeURIComponent(login)}&limit=${PER_PAGE}`,
+        session
+      );
+      if (!earlier.some((pr) => pr.pull_request?.merged && pr.created_at < since)) {
+        newcomers.add(login);
+      }
+    })
+  );
+
+  return inWindow.map((pr) => {
+    const login = pr.user?.login ?? "";
+    const firstTime = newcomers.has(login);
+    return {
+      number: pr.number,
+      title: pr.title,
+      created_at: pr.created_at,
+      updated_at: pr.updated_at,
+      merged_at: pr.pull_request?.merged_at ?? null,
+      user: pr.user,
+      html_url: pr.html_url,
+      state: pr.state,
+      author_association: members.has(login)
+        ? "MEMBER"
+        : firstTime
+        ? "FIRST_TIME_CONTRIBUTOR"
+        : "CONTRIBUTOR",
+      first_time: firstTime,
+    };
+  });
+}
+
+async function fetchLatestCommitDate(base: string, session: GHSession): Promise<string | null> {
+  const [latest] = await ghFetch<GHCommit[]>(
+    `${base}/commits?limit=1&stat=false&verification=false&files=false`,
+    session
+  );
+  return latest?.commit.author?.date ?? null;
+}
+
+// ── MAIN DATA FETCHER ────────────────────────────────────────────────────────
+export async function fetchGiteaDashboardData(
+  target: GitHubRepo,
+  options: FetchOptions = {}
+): Promise<FullDashboardData> {
+  const host = target.host ?? "";
+  const instance = resolveGiteaInstance(host);
+  if (!instance) {
+    throw new GitHubNotFoundError(`${host} (not a configured Gitea instance)`);
+  }
+
+  if (instance.token === "mock") {
+    return buildMockDashboard(target, "gitea", options.mockScenario);
+  }
+
+  const session: GHSession = { token: instance.token ?? "", rateLimit: null, quotaResource: "core" };
+  const base = `${instance.apiUrl}/repos/${encodeURIComponent(target.owner)}/${encodeURIComponent(target.repo)}`;
+  const webUrl = `${instance.apiUrl.replace(/\/api\/v1\/?$/, "")}/${target.owner}/${target.repo}`;
+  const sinceDate = new Date(Date.now() - WINDOW_DAYS * DAY_MS);
+  const since = sinceDate.toISOString();
+
+  // Shared lookups: CI reads the commit list and default branch, issue
+  // responses and newcomer detection both need the maintainers
+  const repo = fetchRepo(base, session);
+  const history = collectCommits(base, since, session);
+  const maintainers = fetchMaintainers(base, repo, session);
+
+  const results = await Promise.allSettled([
+    repo.then(toGHRepo),
+    history,
+    collectMergedPRs(base, since, session),
+    collectOpenPRs(base, session),
+    ghFetch<GHIssue[]>(`${base}/issues?state=open&type=issues&limit=${PER_PAGE}`, session),
+    collectIssueActivity(base, since, maintainers, session),
+    collectReleases(base, webUrl, session),
+    Promise.reject<number>(new SourceNotApplicableError("not available on Gitea")),
+    collectCommitStatuses(base, history, repo, session),
+    collectWindowPRs(base, since, maintainers, session),
+  ]);
+
+  return assembleDashboard(target, results, {
+    forge: "gitea",
+    backend: "rest",
+    sinceDate,
+    session,
+    webUrl,
+    latestCommitDate: () => fetchLatestCommitDate(base, session),
+  });
+}
+
+// ── GITEA API TYPE STUBS ──────────────────────────────────────────────────────
+// Only the fields that differ from, or are missing in, the GitHub shapes.
+interface GTUser {
+  login: string;
+  type?: string; // "bot" for bot accounts (Forgejo, Gitea ≥ 1.21)
+}
+interface GTRepo {
+  full_name: string;
+  private: boolean;
+  default_branch: string;
+  description: string;
+  stars_count: number;
+  forks_count: number;
+  html_url: string;
+  owner: GTUser;
+}
+interface GTReview {
+  state: string; // "APPROVED", "REQUEST_CHANGES", "COMMENT", "PENDING", …
+  submitted_at: string | null;
+  user: GTUser | null;
+}
+interface GTTimelineEntry {
+  type: string; // "comment", "label", "assignees", "milestone", "close", …
+  created_at: string;
+  user: GTUser | null;
+}
+interface GTTag {
+  name: string;
+  commit: { sha: string; created: string } | null;
+}
+interface GTCombinedStatus {
+  state: string; // "success", "failure", "error", "pending", "" without statuses
+  statuses: { created_at: string; updated_at: string }[];
+}
+interface GTPullIssue {
+  number: number;
+  title: string;
+  state: string;
+  created_at: string;
+  updated_at: string;
+  user: GTUser | null;
+  html_url: string;
+  pull_request: { merged: boolean; merged_at: string | null } | null;
+}
@@ -0,0 +1,198 @@
+// FILE: lib/github-app.ts
+
+/**
+ * NexusPulse GitHub App Auth — installation tokens
+ * ─────────────────────────────────────────────────────────
+ * Authenticating as a GitHub App gives every installed account its own
+ * quota, which grows with the organization, instead of one personal
+ * token's 5,000 requests an hour.
+ *
+ *   1. sign a short-lived RS256 JWT with the app's private key (Web Crypto)
+ *   2. find the installation on the repo's owner    GET  /repos/{owner}/{repo}/installation
+ *   3. exchange the JWT for an installation token   POST /app/installations/{id}/access_tokens
+ *
+ * Installations and tokens are cached for the isolate's lifetime; a token
+ * is replaced shortly before it expires, and an installation whose token
+ * exchange is refused is looked up again. Owners without the app installed
+ * fall back to GITHUB_TOKEN, and so does any failure on the app's side (bad
+ * key, revoked app, network). Like GITHUB_TOKEN, an installation token only
+ * ever shows public repos: fetchDashboardData hides private ones from it.
+ *
+ *   GITHUB_APP_ID            numeric app ID
+ *   GITHUB_APP_PRIVATE_KEY   PEM as downloaded (PKCS#1) or PKCS#8; "\n" escapes allowed
+ */
+
+import type { GitHubRepo } from "./github-client";
+import { ghFetch, type GHSession } from "./github-transport";
+import { GitHubNotFoundError, GitHubUnauthorizedError } from "./github-errors";
+
+const JWT_BACKDATE_SECONDS = 60;          // Absorbs clock drift against GitHub
+const JWT_LIFETIME_SECONDS = 9 * 60;      // GitHub caps app JWTs at 10 minutes
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+const NOT_INSTALLED_TTL_MS = 10 * 60 * 1000; // Re-check, in case the app gets installed
+
+// rsaEncryption AlgorithmIdentifier, for wrapping PKCS#1 keys as PKCS#8
+const RSA_ALGORITHM_ID = [0x30, 0x0d, 0x06, 0x09, 0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01, 0x01, 0x01, 0x05, 0x00];
+
+interface InstallationToken {
+  token: string;
+  expiresAt: number; // epoch ms
+}
+
+let signingKey: Promise<CryptoKey> | null = null;
+const installations = new Map<string, number>();      // owner → installation id
+const notInstalled = new Map<string, number>();       // owner/repo → checked at (epoch ms)
+const tokens = new Map<number, Promise<InstallationToken>>();
+
+export function githubAppConfigured(): boolean {
+  return Boolean(process.env.GITHUB_APP_ID && process.env.GITHUB_APP_PRIVATE_KEY);
+}
+
+// ── SIGNING ───────────────────────────────────────────────────────────────────
+function base64Url(input: Uint8Array | string): string {
+  const bytes = typeof input === "string" ? new TextEncoder().encode(input) : input;
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function derLength(length: number): number[] {
+  if (length < 0x80) return [length];
+  const bytes: number[] = [];
+  for (let rest = length; rest > 0; rest >>= 8) bytes.unshift(rest & 0xff);
+  return [0x80 | bytes.length, ...bytes];
+}
+
+// PrivateKeyInfo { version 0, rsaEncryption, OCTET STRING { RSAPrivateKey } }
+function pkcs1ToPkcs8(pkcs1: Uint8Array): Uint8Array<ArrayBuffer> {
+  const body = [0x02, 0x01, 0x00, ...RSA_ALGORITHM_ID, 0x04, ...derLength(pkcs1.length), ...pkcs1];
+  return Uint8Array.from([0x30, ...derLength(body.length), ...body]);
+}
+
+// Web Crypto only imports PKCS#8; GitHub hands out PKCS#1 ("RSA PRIVATE KEY")
+async function importSigningKey(pem: string): Promise<CryptoKey> {
+  const text = pem.replace(/\\n/g, "\n");
+  const base64 = text.replace(/-----(BEGIN|END)[^-]*-----/g, "").replace(/\s+/g, "");
+  const der = Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+  const pkcs8 = text.includes("BEGIN RSA PRIVATE KEY") ? pkcs1ToPkcs8(der) : der;
+
+  return crypto.subtle.importKey(
+    "pkcs8",
+    pkcs8,
+    { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+}
+
+// A key that fails to import is not cached, so fixing the env var takes
+// effect without a restart
+function appSigningKey(): Promise<CryptoKey> {
+  if (signingKey) return signingKey;
+  const pending = importSigningKey(process.env.GITHUB_APP_PRIVATE_KEY ?? "");
+  signingKey = pending;
+  pending.catch(() => {
+    if (signingKey === pending) signingKey = null;
+  });
+  return pending;
+}
+
+async function createAppJwt(): Promise<string> {
+  const key = await appSigningKey();
+  const issuedAt = Math.floor(Date.now() / 1000) - JWT_BACKDATE_SECONDS;
+  const unsigned = `${base64Url(JSON.stringify({ alg: "RS256", typ: "JWT" }))}.${base64Url(
+    JSON.stringify({ iat: issuedAt, exp: issuedAt + JWT_LIFETIME_SECONDS, iss: process.env.GITHUB_APP_ID })
+  )}`;
+  const signature = await crypto.subtle.sign(
+    "RSASSA-PKCS1-v1_5",
+    key,
+    new TextEncoder().encode(unsigned)
+  );
+  return `${unsigned}.${base64Url(new Uint8Array(signature))}`;
+}
+
+// ── INSTALLATIONS ─────────────────────────────────────────────────────────────
+// App endpoints authenticate with the JWT and do not touch any token's quota
+async function appSession(): Promise<GHSession> {
+  return { token: await createAppJwt(), rateLimit: null, quotaResource: "core" };
+}
+
+// An installation belongs to the account, so one lookup serves all its
+// repos. A miss is remembered per repo only: a mistyped repo must not mark
+// the whole owner as uninstalled.
+async function findInstallation({ owner, repo }: GitHubRepo): Promise<number | null> {
+  const ownerKey = owner.toLowerCase();
+  const repoKey = `${ownerKey}/${repo.toLowerCase()}`;
+  const known = installations.get(ownerKey);
+  if (known !== undefined) return known;
+
+  const checkedAt = notInstalled.get(repoKey);
+  if (checkedAt !== undefined && Date.now() - checkedAt < NOT_INSTALLED_TTL_MS) return null;
+
+  try {
+    const installation = await ghFetch<{ id: number }>(
+      `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/installation`,
+      await appSession()
+    );
+    installations.set(ownerKey, installation.id);
+    notInstalled.delete(repoKey);
+    return installation.id;
+  } catch (error) {
+    if (!(error instanceof GitHubNotFoundError)) throw error;
+    notInstalled.set(repoKey, Date.now());
+    return null;
+  }
+}
+
+async function mintToken(installationId: number): Promise<InstallationToken> {
+  const grant = await ghFetch<{ token: string; expires_at: string }>(
+    `/app/installations/${installationId}/access_tokens`,
+    await appSession(),
+    { method: "POST" }
+  );
+  return { token: grant.token, expiresAt: Date.parse(grant.expires_at) };
+}
+
+// Concurrent loads share one exchange; a failed one is not cached
+async function installationToken(installationId: number): Promise<string> {
+  const cached = tokens.get(installationId);
+  if (cached) {
+    const current = await cached.catch(() => null);
+    if (current && current.expiresAt - Date.now() > TOKEN_REFRESH_MARGIN_MS) return current.token;
+    if (tokens.get(installationId) !== cached) return installationToken(installationId);
+  }
+
+  const pending = mintToken(installationId);
+  tokens.set(installationId, pending);
+  pending.catch(() => {
+    if (tokens.get(installationId) === pending) tokens.delete(installationId);
+  });
+  return (await pending).token;
+}
+
+// ── ENTRY POINT ───────────────────────────────────────────────────────────────
+// null when no app is configured, it is not installed on this owner, or
+// the app cannot authenticate right now; the caller then uses GITHUB_TOKEN
+export async function installationTokenFor(target: GitHubRepo): Promise<string | null> {
+  if (!githubAppConfigured()) return null;
+
+  try {
+    const installationId = await findInstallation(target);
+    if (installationId === null) {
+      console.warn(`[NexusPulse] GitHub App not installed on ${target.owner}; using GITHUB_TOKEN`);
+      return null;
+    }
+    try {
+      return await installationToken(installationId);
+    } catch (error) {
+      // Uninstalled or suspended since it was looked up: look it up afresh next time
+      if (error instanceof GitHubNotFoundError || error instanceof GitHubUnauthorizedError) {
+        installations.delete(target.owner.toLowerCase());
+      }
+      throw error;
+    }
+  } catch (error) {
+    console.error("[NexusPulse] GitHub App authentication failed; using GITHUB_TOKEN:", error);
+    return null;
+  }
+}
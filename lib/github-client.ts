@@ -2,12 +2,40 @@
  * NexusPulse GitHub Client — Edge Runtime Compatible
  */
 
-import { RawMetrics, generateMockMetrics } from "./vitality-engine";
+import { RawMetrics, percentile } from "./vitality-engine";
+import { analyzeConcentration, type AuthorCommits } from "./contributor-concentration";
+import { GitHubError, GitHubNotFoundError } from "./github-errors";
+import { classifyStaleness, resolveStalePolicy, type StalePolicy } from "./stale-policy";
+import { collectViaGraphQL } from "./github-graphql";
+import { installationTokenFor } from "./github-app";
+import { buildMockSources, resolveMockScenario } from "./mock-scenarios";
+import {
+  ghFetch,
+  ghRequest,
+  parseLastPage,
+  parseNextLink,
+  type GHSession,
+  type RateLimitInfo,
+} from "./github-transport";
+
+export type { RateLimitInfo } from "./github-transport";
+export type { AuthorCommits } from "./contributor-concentration";
+export type { StalePolicy } from "./stale-policy";
 
 // ── PUBLIC TYPES ──────────────────────────────────────────────────────────────
+export const WINDOW_DAYS = 30; // Scoring window for commits, PRs and authors
+
+// On GitLab, owner holds the full namespace path ("group/subgroup")
 export interface GitHubRepo {
   owner: string;
   repo: string;
+  host?: string; // Instance hostname, for self-hosted forges (Gitea)
+}
+
+export interface FetchOptions {
+  mockScenario?: string; // ?scenario= — only read in mock mode, see lib/mock-scenarios
+  viewerToken?: string;  // Signed-in viewer's OAuth token (GitHub only), see lib/viewer-session
+  cacheTag?: string;     // Set by lib/dashboard-cache; tags this load's GitHub requests
 }
 
 export interface CommitActivity {
@@ -22,11 +50,37 @@ export interface PullRequest {
   number: number;
   title: string;
   state: "open" | "closed" | "merged";
+  createdAt: string;
+  firstReviewAt: string | null; // First review by someone other than the author
   mergedAt: string | null;
   author: string;
   url: string;
 }
 
+export type ReviewState = "awaiting-review" | "changes-requested" | "approved" | "unknown";
+
+export interface OpenPullRequest {
+  number: number;
+  title: string;
+  author: string;
+  url: string;
+  createdAt: string;
+  updatedAt: string;
+  isDraft: boolean;
+  reviewState: ReviewState;
+  isStale: boolean; // No update in STALE_PR_DAYS
+}
+
+export interface PRBacklog {
+  open: number;
+  draft: number;
+  awaitingReview: number;
+  changesRequested: number;
+  stale: number;
+  staleAfterDays: number;
+  oldest: OpenPullRequest[]; // Longest-open first
+}
+
 export interface Issue {
   number: number;
   title: string;
@@ -34,10 +88,105 @@ export interface Issue {
   createdAt: string;
   updatedAt: string;
   isStale: boolean;
+  staleReason: string | null;     // Which stale-policy rule it broke
+  milestone: string | null;
+  firstResponseAt: string | null; // First maintainer reply or triage action (window issues only)
   url: string;
   labels: string[];
 }
 
+export interface Release {
+  tag: string;
+  name: string;
+  publishedAt: string;
+  url: string;
+  author: string | null;
+  isPrerelease: boolean;
+  fromTag: boolean; // Synthesized from a bare tag — the repo publishes no releases
+}
+
+// GitHub Actions health of the default branch, judged per commit: a commit
+// is red when any workflow run on it failed
+export interface CIHealth {
+  branch: string | null;
+  runs: number;                     // Runs with a success/failure verdict
+  successRate: number | null;       // 0–100, null without runs
+  meanRecoveryHours: number | null; // Red commit finished → next green commit finished
+  brokenStreak: number;             // Red commits at the tip of the branch
+  failingSince: string | null;      // When the current red streak started
+}
+
+// PRs opened in the window by people new to the repo
+export interface NewcomerFunnel {
+  opened: number;
+  merged: number;
+  abandoned: number;           // Closed without merging
+  pending: number;             // Still open
+  newContributors: string[];   // Authors whose first merged PR landed in the window
+  firstTimeReporters: number;  // Distinct issue authors new to the repo
+}
+
+// Issue traffic inside the scoring window
+export interface IssueFlow {
+  opened: number;
+  closed: number;
+  netGrowth: number;        // opened − closed; positive means the backlog grew
+  awaitingResponse: number; // Opened in the window, still open, no maintainer response
+  responseHours: number[];  // Opened → first maintainer response, per answered issue
+}
+
+export interface DailyCommitBucket {
+  date: string;   // YYYY-MM-DD (UTC)
+  count: number;
+}
+
+// Per-PR durations (hours) behind the Flow percentiles, for distribution charts
+export interface PRTimings {
+  mergeHours: number[];
+  firstReviewHours: number[];
+}
+
+export interface CacheInfo {
+  status: "hit" | "stale" | "miss" | "bypass" | "private"; // private: signed-in load, not shared
+  ageSeconds: number;   // Age of the snapshot that was served
+  ttlSeconds: number;   // Freshness window before a background refresh
+}
+
+export type DataSource =
+  | "repo"
+  | "commits"
+  | "prs"
+  | "backlog"
+  | "issues"
+  | "issueFlow"
+  | "releases"
+  | "ci"
+  | "newcomers"
+  | "contributors";
+
+// "rest" issues seven v3 calls; "graphql" folds repo/commits/PRs/issues into v4 queries
+export type DataBackend = "rest" | "graphql";
+
+// Which forge served the data — see lib/forge-provider
+export type ForgeKind = "github" | "gitlab" | "gitea" | "local";
+
+export interface SourceStatus {
+  ok: boolean;
+  applicable: boolean;  // False when the forge has no such data at all (ok is false too)
+  error: string | null; // Failure reason when ok is false
+}
+
+export type SourceStatusMap = Record<DataSource, SourceStatus>;
+
+// Rejection reason for a source the forge does not offer. Not a failure: it
+// is not logged, and the dashboard still counts as complete without it.
+export class SourceNotApplicableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SourceNotApplicableError";
+  }
+}
+
 export interface FullDashboardData {
   repo: {
     name: string;
@@ -45,256 +194,1061 @@ export interface FullDashboardData {
     stars: number;
     forks: number;
     url: string;
+    isPrivate: boolean; // Only ever shown to a signed-in viewer on GitHub
   };
   metrics: RawMetrics;
   recentCommits: CommitActivity[];
   recentPRs: PullRequest[];
   recentIssues: Issue[];
+  stalePolicy: StalePolicy;           // Policy the issues were classified under
+  recentReleases: Release[];          // Newest first, prereleases included
+  prTimings: PRTimings;
+  prBacklog: PRBacklog;
+  issueFlow: IssueFlow;
+  ci: CIHealth;
+  newcomers: NewcomerFunnel;
+  commitAuthors: AuthorCommits[];     // Most active first, top 10 of the window
+  commitBuckets: DailyCommitBucket[]; // One entry per day of the window, oldest first
+  commitsTruncated: boolean;          // True when the page cap stopped the walk early
+  rateLimit: RateLimitInfo | null;    // Core quota after this load (mock: only the rate-limited scenario)
+  sources: SourceStatusMap;           // Which sources answered this load
+  forge: ForgeKind;
+  backend: DataBackend;               // GitHub data path ("rest" for other forges)
+  cache: CacheInfo | null;            // Set by lib/dashboard-cache when served through it
   fetchedAt: string;
   isMockData: boolean;
 }
 
 // ── INTERNALS ─────────────────────────────────────────────────────────────────
-const GITHUB_API = "https://api.github.com";
-const STALE_THRESHOLD_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
-
-async function ghFetch<T>(
-  path: string,
-  token: string,
-  options: RequestInit = {}
-): Promise<T> {
-  const res = await fetch(`${GITHUB_API}${path}`, {
-    ...options,
-    headers: {
-      Authorization: `Bearer ${token}`,
-      Accept: "application/vnd.github.v3+json",
-      "X-GitHub-Api-Version": "2022-11-28",
-      "User-Agent": "NexusPulse-OS/1.0",
-      ...options.headers,
-    },
-    next: { revalidate: 300 },
-  });
+const DAY_MS = 24 * 60 * 60 * 1000;
+const COMMITS_PER_PAGE = 100;
+const MAX_COMMIT_PAGES = 10; // Safety cap: 1,000 commits per window
+const MAX_REVIEW_LOOKUPS = 30; // REST needs one reviews call per PR
+const MAX_MERGED_PR_PAGES = 10; // Safety cap: 1,000 PRs closed or updated in the window
+const MAX_OPEN_PR_PAGES = 3;   // Oldest 300 open PRs — where the stale ones live
+const STALE_PR_DAYS = 14;
+const HOUR_MS = 60 * 60 * 1000;
+const MAX_ISSUE_PAGES = 3;        // 300 issues touched in the window
+const MAX_RESPONSE_LOOKUPS = 30;  // REST needs comments + events calls per issue
+const MAX_TAG_LOOKUPS = 10;       // REST tags carry no date — one commit call each
+const MAX_RUN_PAGES = 3;          // 300 completed push runs
+const MAX_WINDOW_PR_PAGES = 2;    // 200 PRs opened in the window
+const MAX_NEWCOMER_LOOKUPS = 15;  // One commits call per merged-PR author
+
+// author_association values that imply write access to the repo
+const MAINTAINER_ASSOCIATIONS = new Set(["OWNER", "MEMBER", "COLLABORATOR"]);
+// author_association values for authors with no commits in the repo yet
+const FIRST_TIME_ASSOCIATIONS = new Set(["FIRST_TIME_CONTRIBUTOR", "FIRST_TIMER"]);
+// Issue events only someone with triage access can cause
+const TRIAGE_EVENTS = new Set(["labeled", "assigned", "milestoned", "closed"]);
+
+// ── COMMIT COLLECTOR ─────────────────────────────────────────────────────────
+// Walks the repo commits endpoint page by page until the window is exhausted
+// or MAX_COMMIT_PAGES is reached.
+async function collectCommits(
+  owner: string,
+  repo: string,
+  since: string,
+  session: GHSession
+): Promise<CommitHistory> {
+  const commits: GHCommit[] = [];
+  let path: string | null =
+    `/repos/${owner}/${repo}/commits?since=${since}&per_page=${COMMITS_PER_PAGE}`;
+  let pages = 0;
+
+  while (path && pages < MAX_COMMIT_PAGES) {
+    const { data, headers } = await ghRequest<GHCommit[]>(path, session);
+    commits.push(...data);
+    path = parseNextLink(headers.get("link"));
+    pages++;
+  }
+
+  return { commits, truncated: path !== null };
+}
+
+// Prefers the GitHub login so one person committing under several names
+// (laptop vs. web UI) is counted once
+function countCommitsByAuthor(commits: GHCommit[]): AuthorCommits[] {
+  const authors = new Map<string, AuthorCommits>();
+  for (const c of commits) {
+    const name = c.author?.login ?? c.commit.author?.name;
+    if (!name) continue;
+    const entry = authors.get(name.toLowerCase());
+    if (entry) entry.commits++;
+    else authors.set(name.toLowerCase(), { author: name, commits: 1 });
+  }
+  return [...authors.values()].sort((a, b) => b.commits - a.commits);
+}
+
+// With per_page=1 the rel="last" page number is the total item count
+async function countAllTimeContributors(
+  owner: string,
+  repo: string,
+  session: GHSession
+): Promise<number> {
+  const { data, headers } = await ghRequest<GHContributor[] | null>(
+    `/repos/${owner}/${repo}/contributors?per_page=1&anon=false`,
+    session
+  );
+  return parseLastPage(headers.get("link")) ?? (Array.isArray(data) ? data.length : 0);
+}
+
+// Completed push runs created inside the window, across all branches — the
+// default branch is only known once the repo lookup lands, so it is
+// filtered at assembly
+async function collectWorkflowRuns(
+  owner: string,
+  repo: string,
+  since: Date,
+  session: GHSession
+): Promise<GHWorkflowRun[]> {
+  const created = encodeURIComponent(`>=${since.toISOString().split("T")[0]}`);
+  const runs: GHWorkflowRun[] = [];
+  let path: string | null =
+    `/repos/${owner}/${repo}/actions/runs?event=push&status=completed&created=${created}&per_page=100`;
+  let pages = 0;
+
+  while (path && pages < MAX_RUN_PAGES) {
+    const { data, headers } = await ghRequest<GHWorkflowRunPage>(path, session);
+    runs.push(...data.workflow_runs);
+    path = parseNextLink(headers.get("link"));
+    pages++;
+  }
+
+  return runs;
+}
+
+// PRs opened in the window, flagged when their author is new to the repo.
+// author_association flips to CONTRIBUTOR once a PR merges, so merged PRs
+// are checked against the author's commits from before the window instead.
+async function collectWindowPRs(
+  owner: string,
+  repo: string,
+  since: string,
+  session: GHSession
+): Promise<CollectedWindowPR[]> {
+  const prs: GHWindowPR[] = [];
+  let path: string | null =
+    `/repos/${owner}/${repo}/pulls?state=all&sort=created&direction=desc&per_page=100`;
+  let pages = 0;
+
+  while (path && pages < MAX_WINDOW_PR_PAGES) {
+    const { data, headers } = await ghRequest<GHWindowPR[]>(path, session);
+    prs.push(...data);
+    path = parseNextLink(headers.get("link"));
+    pages++;
+    // Newest first, so a page that reaches past the window is the last one needed
+    if (data.length > 0 && data[data.length - 1].created_at < since) break;
+  }
+  const inWindow = prs.filter((pr) => pr.created_at >= since);
+
+  const candidates = [
+    ...new Set(
+      inWindow
+        .filter((pr) => pr.merged_at !== null && pr.author_association === "CONTRIBUTOR")
+        .map((pr) => pr.user?.login)
+        .filter((login): login is string => !!login)
+    ),
+  ].slice(0, MAX_NEWCOMER_LOOKUPS);
+
+  const newcomers = new Set<string>();
+  await Promise.all(
+    candidates.map(async (login) => {
+      const earlier = await ghFetch<GHCommit[]>(
+        `/repos/${owner}/${repo}/commits?author=${encodeURIComponent(login)}&until=${since}&per_page=1`,
+        session
+      );
+      if (earlier.length === 0) newcomers.add(login);
+    })
+  );
+
+  return inWindow.map((pr) => ({
+    ...pr,
+    first_time:
+      FIRST_TIME_ASSOCIATIONS.has(pr.author_association) ||
+      newcomers.has(pr.user?.login ?? ""),
+  }));
+}
+
+function buildNewcomerFunnel(prs: CollectedWindowPR[], issues: GHIssue[]): NewcomerFunnel {
+  const firstTime = prs.filter((pr) => pr.first_time);
+  const merged = firstTime.filter((pr) => pr.merged_at !== null);
+
+  return {
+    opened: firstTime.length,
+    merged: merged.length,
+    abandoned: firstTime.filter((pr) => pr.state === "closed" && pr.merged_at === null).length,
+    pending: firstTime.filter((pr) => pr.state === "open").length,
+    newContributors: [...new Set(merged.map((pr) => pr.user?.login ?? "ghost"))],
+    firstTimeReporters: new Set(
+      issues
+        .filter((i) => FIRST_TIME_ASSOCIATIONS.has(i.author_association ?? ""))
+        .map((i) => i.user?.login)
+    ).size,
+  };
+}
+
+function buildCIHealth(runs: GHWorkflowRun[], branch: string | null): CIHealth {
+  const decided = runs.filter(
+    (r) => r.head_branch === branch && (r.conclusion === "success" || r.conclusion === "failure")
+  );
+
+  // One verdict per commit, ordered by when it was pushed
+  const verdicts = new Map<string, { pushedAt: string; finishedAt: string; red: boolean }>();
+  for (const run of decided) {
+    const red = run.conclusion === "failure";
+    const verdict = verdicts.get(run.head_sha);
+    if (!verdict) {
+      verdicts.set(run.head_sha, { pushedAt: run.created_at, finishedAt: run.updated_at, red });
+      continue;
+    }
+    verdict.red ||= red;
+    if (run.created_at < verdict.pushedAt) verdict.pushedAt = run.created_at;
+    if (run.updated_at > verdict.finishedAt) verdict.finishedAt = run.updated_at;
+  }
+  const timeline = [...verdicts.values()].sort((a, b) => a.pushedAt.localeCompare(b.pushedAt));
+
+  const recoveries: number[] = [];
+  let redSince: string | null = null;
+  let brokenStreak = 0;
+  for (const verdict of timeline) {
+    if (verdict.red) {
+      redSince ??= verdict.finishedAt;
+      brokenStreak++;
+    } else {
+      if (redSince) recoveries.push(hoursBetween(redSince, verdict.finishedAt));
+      redSince = null;
+      brokenStreak = 0;
+    }
+  }
+
+  const successes = decided.filter((r) => r.conclusion === "success").length;
+  return {
+    branch,
+    runs: decided.length,
+    successRate: decided.length > 0 ? Math.round((successes / decided.length) * 100) : null,
+    meanRecoveryHours:
+      recoveries.length > 0
+        ? Math.round((recoveries.reduce((sum, h) => sum + h, 0) / recoveries.length) * 10) / 10
+        : null,
+    brokenStreak,
+    failingSince: redSince,
+  };
+}
+
+function commitTimestamp(c: GHCommit): number {
+  return new Date(c.commit.author?.date ?? 0).getTime();
+}
+
+// Buckets commit dates into one UTC day per slot, oldest first
+function bucketCommitsByDay(
+  dates: string[],
+  windowStart: Date,
+  days: number = WINDOW_DAYS
+): DailyCommitBucket[] {
+  const startDay = Date.UTC(
+    windowStart.getUTCFullYear(),
+    windowStart.getUTCMonth(),
+    windowStart.getUTCDate()
+  );
+  const buckets: DailyCommitBucket[] = Array.from({ length: days + 1 }, (_, i) => ({
+    date: new Date(startDay + i * DAY_MS).toISOString().split("T")[0],
+    count: 0,
+  }));
+
+  for (const date of dates) {
+    const index = Math.floor((new Date(date).getTime() - startDay) / DAY_MS);
+    if (index >= 0 && index < buckets.length) buckets[index].count++;
+  }
+
+  return buckets;
+}
+
+// ── BACKENDS ─────────────────────────────────────────────────────────────────
+export function resolveBackend(): DataBackend {
+  return process.env.GITHUB_DATA_BACKEND === "graphql" ? "graphql" : "rest";
+}
+
+async function collectViaRest(
+  target: GitHubRepo,
+  since: string,
+  session: GHSession
+): Promise<CoreSourceResults> {
+  const { owner, repo } = target;
+  return Promise.allSettled([
+    ghFetch<GHRepo>(`/repos/${owner}/${repo}`, session),
+    collectCommits(owner, repo, since, session),
+    collectMergedPRs(owner, repo, since, session),
+    collectOpenPRs(owner, repo, session),
+    ghFetch<GHIssue[]>(
+      `/repos/${owner}/${repo}/issues?state=open&per_page=50`,
+      session
+    ),
+    collectIssueActivity(owner, repo, since, session),
+    collectReleases(owner, repo, session),
+  ]);
+}
+
+// Closed PRs merged inside the window, with the first non-author review
+// looked up for the most recent MAX_REVIEW_LOOKUPS of them
+async function collectMergedPRs(
+  owner: string,
+  repo: string,
+  since: string,
+  session: GHSession
+): Promise<CollectedPR[]> {
+  const closed: GHPR[] = [];
+  let path: string | null =
+    `/repos/${owner}/${repo}/pulls?state=closed&sort=updated&direction=desc&per_page=100`;
+  let pages = 0;
+
+  while (path && pages < MAX_MERGED_PR_PAGES) {
+    const { data, headers } = await ghRequest<GHPR[]>(path, session);
+    closed.push(...data);
+    path = parseNextLink(headers.get("link"));
+    pages++;
+    // A merge bumps updated_at, so once a page reaches past the window no
+    // later page can hold a PR merged in it
+    if (data.length > 0 && data[data.length - 1].updated_at < since) break;
+  }
+  const merged = closed
+    .filter((pr) => pr.merged_at !== null && pr.merged_at >= since)
+    .sort((a, b) => (b.merged_at ?? "").localeCompare(a.merged_at ?? ""));
+
+  return Promise.all(
+    merged.map(async (pr, i) => {
+      if (i >= MAX_REVIEW_LOOKUPS) return { ...pr, first_review_at: null };
+      const reviews = await ghFetch<GHReview[]>(
+        `/repos/${owner}/${repo}/pulls/${pr.number}/reviews?per_page=10`,
+        session
+      );
+      const first = reviews.find(
+        (r) => r.submitted_at && r.user?.login !== pr.user?.login
+      );
+      return { ...pr, first_review_at: first?.submitted_at ?? null };
+    })
+  );
+}
+
+// Open PRs, oldest first, with a review state derived from each reviewer's
+// latest verdict (drafts are not looked up — nobody is expected to review them)
+async function collectOpenPRs(
+  owner: string,
+  repo: string,
+  session: GHSession
+): Promise<CollectedOpenPR[]> {
+  const open: GHPR[] = [];
+  let path: string | null =
+    `/repos/${owner}/${repo}/pulls?state=open&sort=created&direction=asc&per_page=100`;
+  let pages = 0;
+
+  while (path && pages < MAX_OPEN_PR_PAGES) {
+    const { data, headers } = await ghRequest<GHPR[]>(path, session);
+    open.push(...data);
+    path = parseNextLink(headers.get("link"));
+    pages++;
+  }
+
+  let lookups = 0;
+  return Promise.all(
+    open.map(async (pr) => {
+      const draft = pr.draft ?? false;
+      if (draft || lookups++ >= MAX_REVIEW_LOOKUPS) {
+        return { ...pr, draft, review_state: "unknown" as ReviewState };
+      }
+      const reviews = await ghFetch<GHReview[]>(
+        `/repos/${owner}/${repo}/pulls/${pr.number}/reviews?per_page=100`,
+        session
+      );
+      return { ...pr, draft, review_state: reviewStateFrom(reviews, pr.user?.login) };
+    })
+  );
+}
+
+function reviewStateFrom(reviews: GHReview[], author: string | undefined): ReviewState {
+  const latest = new Map<string, string>();
+  for (const review of reviews) {
+    const reviewer = review.user?.login;
+    if (!reviewer || reviewer === author || review.state === "COMMENTED") continue;
+    latest.set(reviewer, review.state);
+  }
+
+  const verdicts = [...latest.values()];
+  if (verdicts.includes("CHANGES_REQUESTED")) return "changes-requested";
+  if (verdicts.includes("APPROVED")) return "approved";
+  return "awaiting-review";
+}
+
+function buildBacklog(prs: CollectedOpenPR[]): PRBacklog {
+  const staleBefore = Date.now() - STALE_PR_DAYS * DAY_MS;
+  const openPRs: OpenPullRequest[] = prs.map((pr) => ({
+    number: pr.number,
+    title: pr.title.slice(0, 80),
+    author: pr.user?.login ?? "ghost",
+    url: pr.html_url,
+    createdAt: pr.created_at,
+    updatedAt: pr.updated_at,
+    isDraft: pr.draft,
+    reviewState: pr.review_state,
+    isStale: new Date(pr.updated_at).getTime() < staleBefore,
+  }));
+
+  return {
+    open: openPRs.length,
+    draft: openPRs.filter((pr) => pr.isDraft).length,
+    awaitingReview: openPRs.filter((pr) => !pr.isDraft && pr.reviewState === "awaiting-review").length,
+    changesRequested: openPRs.filter((pr) => pr.reviewState === "changes-requested").length,
+    stale: openPRs.filter((pr) => pr.isStale).length,
+    staleAfterDays: STALE_PR_DAYS,
+    oldest: openPRs
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .slice(0, 10),
+  };
+}
+
+// Issues opened or closed inside the window. Comments and events are fetched
+// for the newest MAX_RESPONSE_LOOKUPS opened in it to find the first response.
+async function collectIssueActivity(
+  owner: string,
+  repo: string,
+  since: string,
+  session: GHSession
+): Promise<CollectedIssue[]> {
+  const touched: GHIssue[] = [];
+  let path: string | null =
+    `/repos/${owner}/${repo}/issues?state=all&since=${since}&sort=created&direction=desc&per_page=100`;
+  let pages = 0;
+
+  while (path && pages < MAX_ISSUE_PAGES) {
+    const { data, headers } = await ghRequest<GHIssue[]>(path, session);
+    touched.push(...data);
+    path = parseNextLink(headers.get("link"));
+    pages++;
+  }
+
+  // `since` filters on updated_at, which bots and label edits bump
+  const inWindow = touched.filter(
+    (i) => !i.pull_request && (i.created_at >= since || (i.closed_at ?? "") >= since)
+  );
+
+  let lookups = 0;
+  return Promise.all(
+    inWindow.map(async (issue) => {
+      if (issue.created_at < since || lookups++ >= MAX_RESPONSE_LOOKUPS) {
+        return { ...issue, comments: null, events: null };
+      }
+      const [comments, events] = await Promise.all([
+        ghFetch<GHIssueComment[]>(
+          `/repos/${owner}/${repo}/issues/${issue.number}/comments?per_page=30`,
+          session
+        ),
+        ghFetch<GHIssueEvent[]>(
+          `/repos/${owner}/${repo}/issues/${issue.number}/events?per_page=30`,
+          session
+        ),
+      ]);
+      return { ...issue, comments, events };
+    })
+  );
+}
+
+// A response is a comment from someone with write access, or a triage action
+// (label, assignee, milestone, close) — by anyone but the reporter or a bot
+function firstMaintainerResponse(issue: CollectedIssue): string | null {
+  const reporter = issue.user?.login;
+  const isResponder = (actor: GHActor | null) =>
+    actor !== null && actor.login !== reporter && actor.type !== "Bot";
+
+  const responses = [
+    ...(issue.comments ?? [])
+      .filter((c) => MAINTAINER_ASSOCIATIONS.has(c.author_association) && isResponder(c.user))
+      .map((c) => c.created_at),
+    ...(issue.events ?? [])
+      .filter((e) => TRIAGE_EVENTS.has(e.event) && isResponder(e.actor))
+      .map((e) => e.created_at),
+  ];
+  return responses.sort()[0] ?? null;
+}
+
+function buildIssueFlow(issues: CollectedIssue[], since: string): IssueFlow {
+  const opened = issues.filter((i) => i.created_at >= since);
+  const closed = issues.filter((i) => i.closed_at !== null && i.closed_at >= since).length;
 
-  if (!res.ok) {
-    throw new Error(
-      `GitHub API error: ${res.status} ${res.statusText} — ${path}`
-    );
+  const responseHours: number[] = [];
+  let awaitingResponse = 0;
+  for (const issue of opened) {
+    if (issue.comments === null) continue; // Past the lookup cap
+    const respondedAt = firstMaintainerResponse(issue);
+    if (respondedAt) responseHours.push(hoursBetween(issue.created_at, respondedAt));
+    else if (issue.state === "open") awaitingResponse++;
   }
 
-  return res.json() as Promise<T>;
+  return {
+    opened: opened.length,
+    closed,
+    netGrowth: opened.length - closed,
+    awaitingResponse,
+    responseHours,
+  };
+}
+
+// Published releases, or the newest tags dated by their commit when the
+// repo has never cut a release
+async function collectReleases(
+  owner: string,
+  repo: string,
+  session: GHSession
+): Promise<CollectedRelease[]> {
+  const releases = await ghFetch<GHRelease[]>(
+    `/repos/${owner}/${repo}/releases?per_page=50`,
+    session
+  );
+  const published = releases.filter((r) => !r.draft && r.published_at !== null);
+  if (published.length > 0) return published.map((r) => ({ ...r, from_tag: false }));
+
+  const tags = await ghFetch<GHTag[]>(
+    `/repos/${owner}/${repo}/tags?per_page=${MAX_TAG_LOOKUPS}`,
+    session
+  );
+  return Promise.all(
+    tags.map(async (tag) => {
+      const commit = await ghFetch<GHCommit>(
+        `/repos/${owner}/${repo}/commits/${tag.commit.sha}`,
+        session
+      );
+      return {
+        tag_name: tag.name,
+        name: null,
+        draft: false,
+        prerelease: false,
+        published_at: commit.commit.author?.date ?? null,
+        html_url: `https://github.com/${owner}/${repo}/tree/${encodeURIComponent(tag.name)}`,
+        author: null,
+        from_tag: true,
+      };
+    })
+  );
+}
+
+// Prereleases show on the timeline but don't count towards cadence —
+// a nightly channel would otherwise swamp the signal
+function releaseCadence(
+  releases: Release[],
+  since: string
+): Pick<RawMetrics, "daysSinceLastRelease" | "releasesInWindow" | "releaseMedianIntervalDays"> {
+  const dates = releases
+    .filter((r) => !r.isPrerelease)
+    .map((r) => new Date(r.publishedAt).getTime())
+    .sort((a, b) => b - a);
+
+  const intervals = dates.slice(1).map((date, i) => (dates[i] - date) / DAY_MS);
+  const median = percentile(intervals, 50);
+
+  return {
+    daysSinceLastRelease:
+      dates.length > 0 ? Math.floor((Date.now() - dates[0]) / DAY_MS) : null,
+    releasesInWindow: dates.filter((date) => date >= new Date(since).getTime()).length,
+    releaseMedianIntervalDays: median === null ? null : Math.round(median * 10) / 10,
+  };
+}
+
+function hoursBetween(from: string, to: string): number {
+  return (new Date(to).getTime() - new Date(from).getTime()) / HOUR_MS;
 }
 
 // ── MAIN DATA FETCHER ────────────────────────────────────────────────────────
 export async function fetchDashboardData(
-  target: GitHubRepo
+  target: GitHubRepo,
+  options: FetchOptions = {}
 ): Promise<FullDashboardData> {
-  const token = process.env.GITHUB_TOKEN;
+  // Viewer first, then the app's installation on this owner; the server
+  // token covers everything else. Only the viewer's own token may show
+  // a private repo: the other two would show it to every visitor.
+  const anonymous = !options.viewerToken;
+  const token =
+    options.viewerToken ?? (await installationTokenFor(target)) ?? process.env.GITHUB_TOKEN;
 
   if (!token || token === "mock") {
-    return buildMockDashboard(target);
+    return buildMockDashboard(target, "github", options.mockScenario);
   }
 
-  try {
-    const { owner, repo } = target;
-    const sinceDate = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
-    const since = sinceDate.toISOString();
-    const searchDate = since.split('T')[0];
-
-    const [repoData, commitSearch, prsData, issuesData, contributorsData] =
-      await Promise.all([
-        ghFetch<GHRepo>(`/repos/${owner}/${repo}`, token),
-        ghFetch<{ total_count: number; items: GHCommit[] }>(
-          `/search/commits?q=repo:${owner}/${repo}+author-date:>=${searchDate}&per_page=10`,
-          token
-        ),
-        ghFetch<GHPR[]>(
-          `/repos/${owner}/${repo}/pulls?state=closed&sort=updated&per_page=20`,
-          token
-        ),
-        ghFetch<GHIssue[]>(
-          `/repos/${owner}/${repo}/issues?state=open&per_page=50`,
-          token
-        ),
-        ghFetch<any[]>(
-          `/repos/${owner}/${repo}/contributors?per_page=1&anon=false`,
-          token
-        ),
-      ]);
+  const backend = resolveBackend();
+  const session: GHSession = {
+    token,
+    rateLimit: null,
+    quotaResource: backend === "graphql" ? "graphql" : "core",
+    cacheTag: options.cacheTag,
+  };
+  const { owner, repo } = target;
+  const sinceDate = new Date(Date.now() - WINDOW_DAYS * DAY_MS);
+  const since = sinceDate.toISOString();
 
-    const recentCommits: CommitActivity[] = commitSearch.items.map((c) => ({
-      sha: c.sha.slice(0, 7),
-      message: c.commit.message.split("\n")[0].slice(0, 80),
-      author: c.commit.author?.name ?? c.author?.login ?? "unknown",
-      date: c.commit.author?.date ?? new Date().toISOString(),
-      url: c.html_url,
-    }));
-
-    const mergedPRs = prsData.filter((pr) => pr.merged_at !== null);
-    const recentPRs: PullRequest[] = mergedPRs.slice(0, 10).map((pr) => ({
-      number: pr.number,
-      title: pr.title.slice(0, 80),
-      state: "merged",
-      mergedAt: pr.merged_at,
-      author: pr.user?.login ?? "ghost",
-      url: pr.html_url,
-    }));
-
-    const recentIssues: Issue[] = issuesData
-      .filter((i) => !i.pull_request)
-      .slice(0, 15)
-      .map((issue) => {
-        const lastActivity = new Date(issue.updated_at).getTime();
-        const isStale = Date.now() - lastActivity > STALE_THRESHOLD_MS;
-        return {
-          number: issue.number,
-          title: issue.title.slice(0, 80),
-          state: issue.state as "open" | "closed",
-          createdAt: issue.created_at,
-          updatedAt: issue.updated_at,
-          isStale,
-          url: issue.html_url,
-          labels: issue.labels.map((l) => l.name),
-        };
-      });
-
-    const staleIssues = issuesData
-      .filter((i) => !i.pull_request)
-      .filter(
-        (i) => Date.now() - new Date(i.updated_at).getTime() > STALE_THRESHOLD_MS
-      ).length;
-
-    const metrics: RawMetrics = {
-      commits: commitSearch.total_count, 
-      prsMerged: mergedPRs.length,
-      staleIssues,
-      totalIssues: issuesData.filter((i) => !i.pull_request).length,
-      totalStars: repoData.stargazers_count,
-      totalForks: repoData.forks_count,
-      contributors: contributorsData.length,
-      lastCommitDate: commitSearch.items[0]?.commit.author?.date ?? new Date().toISOString(),
-    };
-
-    return {
-      repo: {
-        name: repoData.full_name,
-        description: repoData.description ?? "No description provided.",
-        stars: repoData.stargazers_count,
-        forks: repoData.forks_count,
-        url: repoData.html_url,
-      },
-      metrics,
-      recentCommits,
-      recentPRs,
-      recentIssues,
-      fetchedAt: new Date().toISOString(),
-      isMockData: false,
-    };
-  } catch (error) {
-    console.error("[NexusPulse] GitHub fetch failed, falling back to mock:", error);
-    return buildMockDashboard(target);
+  // Contributors and Actions runs have no GraphQL equivalent, and the
+  // newcomer check needs per-author commit lookups, so both backends use
+  // REST for them
+  const [coreResults, [contributorsResult, runsResult, windowPRsResult]] = await Promise.all([
+    backend === "graphql"
+      ? collectViaGraphQL(target, since, session)
+      : collectViaRest(target, since, session),
+    Promise.allSettled([
+      countAllTimeContributors(owner, repo, session),
+      collectWorkflowRuns(owner, repo, sinceDate, session),
+      collectWindowPRs(owner, repo, since, session),
+    ]),
+  ]);
+
+  const data = await assembleDashboard(
+    target,
+    [...coreResults, contributorsResult, runsResult, windowPRsResult],
+    {
+      forge: "github",
+      backend,
+      sinceDate,
+      session,
+      webUrl: `https://github.com/${owner}/${repo}`,
+      latestCommitDate: () => fetchLatestCommitDate(owner, repo, session),
+    }
+  );
+
+  // Same answer GitHub gives an outsider, so private names don't leak either
+  if (anonymous && data.repo.isPrivate) {
+    throw new GitHubNotFoundError(`/repos/${owner}/${repo}`);
   }
+  return data;
 }
 
-// ── MOCK DATA BUILDER ─────────────────────────────────────────────────────────
-function buildMockDashboard(target: GitHubRepo): FullDashboardData {
-  const metrics = generateMockMetrics();
-
-  const mockCommits: CommitActivity[] = Array.from({ length: 8 }, (_, i) => ({
-    sha: Math.random().toString(16).slice(2, 9),
-    message: [
-      "feat: implement edge-optimized caching layer",
-      "fix: resolve race condition in vitality engine",
-      "docs: update API integration guide",
-      "chore: upgrade dependencies to latest stable",
-      "refactor: extract mascot state machine",
-      "perf: optimize SVG rendering pipeline",
-      "test: add integration tests for GitHub client",
-      "feat: add supernova animation sequence",
-    ][i],
-    author: ["alice", "bob", "carol", "dave", "eve"][i % 5],
-    date: new Date(Date.now() - i * 6 * 3600000).toISOString(),
-    url: "#",
+// ── ASSEMBLY ─────────────────────────────────────────────────────────────────
+// Turns every provider's normalized source results into FullDashboardData.
+export async function assembleDashboard(
+  target: GitHubRepo,
+  results: SourceResults,
+  context: AssemblyContext
+): Promise<FullDashboardData> {
+  const { sinceDate, session } = context;
+  const since = sinceDate.toISOString();
+
+  // The repo lookup decides whether there is anything to show at all: a
+  // missing repo, bad credentials or an exhausted quota fail the whole load.
+  const [repoResult] = results;
+  if (
+    repoResult.status === "rejected" &&
+    repoResult.reason instanceof GitHubError &&
+    repoResult.reason.kind !== "network" &&
+    repoResult.reason.kind !== "upstream"
+  ) {
+    throw repoResult.reason;
+  }
+
+  // Nothing came back at all — there is no partial picture worth rendering
+  if (results.every((r) => r.status === "rejected")) {
+    throw (results[0] as PromiseRejectedResult).reason;
+  }
+
+  const sources = {} as SourceStatusMap;
+  const repoData = settle(results[0], "repo", sources);
+  const commitHistory = settle(results[1], "commits", sources);
+  const prsData = settle(results[2], "prs", sources);
+  const openPRsData = settle(results[3], "backlog", sources);
+  const issuesData = settle(results[4], "issues", sources);
+  const issueActivity = settle(results[5], "issueFlow", sources);
+  const releasesData = settle(results[6], "releases", sources);
+  const allTimeContributors = settle(results[7], "contributors", sources);
+  // Runs are judged on the default branch, which only the repo lookup knows
+  const workflowRuns = settle<GHWorkflowRun[]>(
+    repoData || results[8].status === "rejected"
+      ? results[8]
+      : { status: "rejected", reason: new Error("default branch unknown") },
+    "ci",
+    sources
+  );
+  const windowPRs = settle(results[9], "newcomers", sources);
+
+  const sortedCommits = [...(commitHistory?.commits ?? [])].sort(
+    (a, b) => commitTimestamp(b) - commitTimestamp(a)
+  );
+
+  const recentCommits: CommitActivity[] = sortedCommits.map((c) => ({
+    sha: c.sha.slice(0, 7),
+    message: c.commit.message.split("\n")[0].slice(0, 80),
+    author: c.commit.author?.name ?? c.author?.login ?? "unknown",
+    date: c.commit.author?.date ?? new Date().toISOString(),
+    url: c.html_url,
   }));
 
-  const mockPRs: PullRequest[] = Array.from({ length: 5 }, (_, i) => ({
-    number: 100 + i,
-    title: [
-      "Add Cloudflare KV caching for GitHub data",
-      "Mobile navigation z-index fix",
-      "Vitality score normalization improvements",
-      "Dark mode refinements for MetricGrid",
-      "TypeScript strict mode compliance",
-    ][i],
+  const mergedPRs = prsData ?? [];
+  const recentPRs: PullRequest[] = mergedPRs.slice(0, 10).map((pr) => ({
+    number: pr.number,
+    title: pr.title.slice(0, 80),
     state: "merged",
-    mergedAt: new Date(Date.now() - i * 2 * 86400000).toISOString(),
-    author: ["alice", "bob", "carol", "dave", "eve"][i],
-    url: "#",
+    createdAt: pr.created_at,
+    firstReviewAt: pr.first_review_at,
+    mergedAt: pr.merged_at,
+    author: pr.user?.login ?? "ghost",
+    url: pr.html_url,
   }));
 
-  const mockIssues: Issue[] = Array.from({ length: 6 }, (_, i) => ({
-    number: 50 + i,
-    title: [
-      "Mascot flickers on Safari iOS 17",
-      "Edge runtime crashes with large repos",
-      "Add support for GitLab API",
-      "Timeline scroll performance on older devices",
-      "Accessibility: keyboard navigation in BottomNav",
-      "Feature: export vitality report as PDF",
-    ][i],
-    state: "open",
-    createdAt: new Date(Date.now() - i * 5 * 86400000).toISOString(),
-    updatedAt: new Date(Date.now() - i * 8 * 86400000).toISOString(),
-    isStale: i > 3,
-    url: "#",
-    labels: [["bug", "ui", "enhancement", "discussion", "accessibility", "feature"][i]],
-  }));
+  const prTimings: PRTimings = {
+    mergeHours: mergedPRs.map((pr) => hoursBetween(pr.created_at, pr.merged_at!)),
+    firstReviewHours: mergedPRs
+      .filter((pr) => pr.first_review_at !== null)
+      .map((pr) => hoursBetween(pr.created_at, pr.first_review_at!)),
+  };
+
+  const prBacklog = buildBacklog(openPRsData ?? []);
+
+  const issueFlow = buildIssueFlow(issueActivity ?? [], since);
+  const firstResponses = new Map(
+    (issueActivity ?? []).map((i) => [i.number, firstMaintainerResponse(i)])
+  );
+
+  const stalePolicy = resolveStalePolicy();
+  const classifiedIssues: Issue[] = (issuesData ?? [])
+    .filter((i) => !i.pull_request)
+    .map((issue) => {
+      const labels = issue.labels.map((l) => l.name);
+      const milestone = issue.milestone?.title ?? null;
+      const verdict = classifyStaleness(
+        { updatedAt: issue.updated_at, labels, milestone },
+        stalePolicy
+      );
+      return {
+        number: issue.number,
+        title: issue.title.slice(0, 80),
+        state: issue.state as "open" | "closed",
+        createdAt: issue.created_at,
+        updatedAt: issue.updated_at,
+        isStale: verdict.isStale,
+        staleReason: verdict.reason,
+        milestone,
+        firstResponseAt: firstResponses.get(issue.number) ?? null,
+        url: issue.html_url,
+        labels,
+      };
+    });
+
+  const recentIssues = classifiedIssues.slice(0, 15);
+  const staleIssues = classifiedIssues.filter((i) => i.isStale).length;
+
+  const recentReleases: Release[] = (releasesData ?? [])
+    .filter((r) => r.published_at !== null)
+    .map((r) => ({
+      tag: r.tag_name,
+      name: r.name || r.tag_name,
+      publishedAt: r.published_at!,
+      url: r.html_url,
+      author: r.author?.login ?? null,
+      isPrerelease: r.prerelease,
+      fromTag: r.from_tag,
+    }))
+    .sort((a, b) => b.publishedAt.localeCompare(a.publishedAt));
+
+  const newcomers = buildNewcomerFunnel(
+    windowPRs ?? [],
+    (issueActivity ?? []).filter((i) => i.created_at >= since)
+  );
+
+  const authorCommits = countCommitsByAuthor(sortedCommits);
+  const concentration = analyzeConcentration(authorCommits);
+
+  const ci = buildCIHealth(workflowRuns ?? [], repoData?.default_branch ?? null);
+
+  const commitBuckets = bucketCommitsByDay(
+    recentCommits.map((c) => c.date),
+    sinceDate
+  );
+
+  // An empty window still has a last commit — look it up outside the window.
+  // Only a lookup that answered "none" means the repo was never committed to.
+  let lastCommitDate: string | null = recentCommits[0]?.date ?? null;
+  let neverCommitted = false;
+  if (lastCommitDate === null && commitHistory) {
+    try {
+      lastCommitDate = await context.latestCommitDate();
+      neverCommitted = lastCommitDate === null;
+    } catch (error) {
+      console.error(
+        "[NexusPulse] last commit lookup failed:",
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+
+  const metrics: RawMetrics = {
+    commits: recentCommits.length,
+    prsMerged: mergedPRs.length,
+    prMedianMergeHours: percentile(prTimings.mergeHours, 50),
+    prP90MergeHours: percentile(prTimings.mergeHours, 90),
+    prMedianFirstReviewHours: percentile(prTimings.firstReviewHours, 50),
+    prP90FirstReviewHours: percentile(prTimings.firstReviewHours, 90),
+    openPRs: prBacklog.open,
+    stalePRs: prBacklog.stale,
+    staleIssues,
+    totalIssues: classifiedIssues.length,
+    issuesOpened: issueFlow.opened,
+    issuesClosed: issueFlow.closed,
+    issueBacklogGrowth: issueFlow.netGrowth,
+    issueMedianResponseHours: percentile(issueFlow.responseHours, 50),
+    issueP90ResponseHours: percentile(issueFlow.responseHours, 90),
+    ...releaseCadence(recentReleases, since),
+    ciSuccessRate: ci.successRate,
+    ciMeanRecoveryHours: ci.meanRecoveryHours,
+    ciBrokenStreak: ci.brokenStreak,
+    newcomerPRsOpened: newcomers.opened,
+    newcomerPRsMerged: newcomers.merged,
+    newcomerPRsAbandoned: newcomers.abandoned,
+    newContributors: newcomers.newContributors.length,
+    totalStars: repoData?.stargazers_count ?? 0,
+    totalForks: repoData?.forks_count ?? 0,
+    contributors: authorCommits.length,
+    busFactor: concentration.busFactor,
+    authorGini: concentration.gini,
+    topAuthorShare: concentration.topAuthorShare,
+    allTimeContributors: allTimeContributors ?? 0,
+    lastCommitDate,
+    neverCommitted,
+  };
 
   return {
     repo: {
-      name: `${target.owner}/${target.repo}`,
-      description:
-        "An edge-optimized community dashboard powered by NexusPulse OS. [MOCK DATA — set GITHUB_TOKEN to use live data]",
+      name: repoData?.full_name ?? `${target.owner}/${target.repo}`,
+      description: repoData
+        ? repoData.description ?? "No description provided."
+        : "Repository metadata unavailable.",
       stars: metrics.totalStars,
       forks: metrics.totalForks,
-      url: `https://github.com/${target.owner}/${target.repo}`,
+      url: repoData?.html_url ?? context.webUrl,
+      isPrivate: repoData?.private ?? false,
     },
     metrics,
-    recentCommits: mockCommits,
-    recentPRs: mockPRs,
-    recentIssues: mockIssues,
+    recentCommits,
+    recentPRs,
+    recentIssues,
+    stalePolicy,
+    recentReleases,
+    prTimings,
+    prBacklog,
+    issueFlow,
+    ci,
+    newcomers,
+    commitAuthors: authorCommits.slice(0, 10),
+    commitBuckets,
+    commitsTruncated: commitHistory?.truncated ?? false,
+    rateLimit: session.rateLimit,
+    sources,
+    forge: context.forge,
+    backend: context.backend,
+    cache: null,
     fetchedAt: new Date().toISOString(),
+    isMockData: false,
+  };
+}
+
+// Records a source's outcome and returns its value, or null when it failed
+// or does not apply
+function settle<T>(
+  result: PromiseSettledResult<T>,
+  source: DataSource,
+  sources: SourceStatusMap
+): T | null {
+  if (result.status === "fulfilled") {
+    sources[source] = { ok: true, applicable: true, error: null };
+    return result.value;
+  }
+  if (result.reason instanceof SourceNotApplicableError) {
+    sources[source] = { ok: false, applicable: false, error: result.reason.message };
+    return null;
+  }
+
+  const error =
+    result.reason instanceof Error ? result.reason.message : String(result.reason);
+  console.error(`[NexusPulse] ${source} unavailable:`, error);
+  sources[source] = { ok: false, applicable: true, error };
+  return null;
+}
+
+async function fetchLatestCommitDate(
+  owner: string,
+  repo: string,
+  session: GHSession
+): Promise<string | null> {
+  const [latest] = await ghFetch<GHCommit[]>(
+    `/repos/${owner}/${repo}/commits?per_page=1`,
+    session
+  );
+  return latest?.commit.author?.date ?? null;
+}
+
+// ── MOCK DATA BUILDER ─────────────────────────────────────────────────────────
+// Scenario-generated sources go through the real assembler, so mock
+// dashboards render exactly what live data of that shape would
+export async function buildMockDashboard(
+  target: GitHubRepo,
+  forge: ForgeKind = "github",
+  requestedScenario?: string
+): Promise<FullDashboardData> {
+  const sinceDate = new Date(Date.now() - WINDOW_DAYS * DAY_MS);
+  const mock = buildMockSources(target, resolveMockScenario(requestedScenario), sinceDate);
+  const webUrl = `https://${target.host ?? `${forge}.com`}/${target.owner}/${target.repo}`;
+
+  const data = await assembleDashboard(target, mock.results, {
+    forge,
+    backend: forge === "github" ? resolveBackend() : "rest",
+    sinceDate,
+    session: { token: "mock", rateLimit: mock.rateLimit, quotaResource: "core" },
+    webUrl,
+    latestCommitDate: async () => mock.latestCommitDate,
+  });
+
+  return {
+    ...data,
+    repo: {
+      ...data.repo,
+      description:
+        `An edge-optimized community dashboard powered by NexusPulse OS. [MOCK DATA — set ${
+          forge === "gitea" ? "a GITEA_INSTANCES token" : `${forge.toUpperCase()}_TOKEN`
+        } to use live data]`,
+      url: webUrl,
+    },
     isMockData: true,
   };
 }
 
 // ── GITHUB API TYPE STUBS ─────────────────────────────────────────────────────
-interface GHRepo {
+// Both backends normalize into these REST v3 shapes before assembly.
+export interface CommitHistory {
+  commits: GHCommit[];
+  truncated: boolean;
+}
+// The forge-specific half of a load: what the REST or GraphQL path collects
+export type CoreSourceResults = [
+  PromiseSettledResult<GHRepo>,
+  PromiseSettledResult<CommitHistory>,
+  PromiseSettledResult<CollectedPR[]>,
+  PromiseSettledResult<CollectedOpenPR[]>,
+  PromiseSettledResult<GHIssue[]>,
+  PromiseSettledResult<CollectedIssue[]>,
+  PromiseSettledResult<CollectedRelease[]>,
+];
+// Everything assembleDashboard needs, in the order the sources are settled
+export type SourceResults = [
+  ...CoreSourceResults,
+  PromiseSettledResult<number>,              // All-time contributors
+  PromiseSettledResult<GHWorkflowRun[]>,     // CI runs, any branch
+  PromiseSettledResult<CollectedWindowPR[]>, // PRs opened in the window
+];
+export interface AssemblyContext {
+  forge: ForgeKind;
+  backend: DataBackend;
+  sinceDate: Date;        // Start of the scoring window
+  session: GHSession;     // Read for the final rate-limit snapshot
+  webUrl: string;         // Repo link when the repo lookup failed
+  latestCommitDate: () => Promise<string | null>; // For windows without commits
+}
+
+export interface GHRepo {
   full_name: string;
+  private: boolean;
+  default_branch: string;
   description: string | null;
   stargazers_count: number;
   forks_count: number;
   html_url: string;
 }
-interface GHCommit {
+export interface GHCommit {
   sha: string;
   commit: { message: string; author: { name: string; date: string } | null };
   author: { login: string } | null;
   html_url: string;
 }
-interface GHPR {
+interface GHContributor {
+  login: string;
+  contributions: number;
+}
+export interface GHPR {
   number: number;
   title: string;
+  draft?: boolean;
+  created_at: string;
+  updated_at: string;
   merged_at: string | null;
   user: { login: string } | null;
   html_url: string;
 }
-interface GHIssue {
+export interface CollectedPR extends GHPR {
+  first_review_at: string | null; // Derived from the PR's reviews
+}
+export interface CollectedOpenPR extends GHPR {
+  draft: boolean;
+  review_state: ReviewState; // Derived from reviews / reviewDecision
+}
+export interface GHWindowPR extends GHPR {
+  state: string;
+  author_association: string;
+}
+export interface CollectedWindowPR extends GHWindowPR {
+  first_time: boolean; // Author new to the repo when the PR was opened
+}
+interface GHReview {
+  state: string;
+  submitted_at: string | null;
+  user: { login: string } | null;
+}
+export interface GHActor {
+  login: string;
+  type?: string; // "Bot" for apps and integrations
+}
+export interface GHIssue {
   number: number;
   title: string;
   state: string;
   created_at: string;
   updated_at: string;
+  closed_at: string | null;
+  user: GHActor | null;
+  author_association?: string;
+  milestone?: { title: string } | null;
   html_url: string;
   pull_request?: object;
   labels: { name: string }[];
 }
+export interface GHIssueComment {
+  created_at: string;
+  author_association: string;
+  user: GHActor | null;
+}
+export interface GHIssueEvent {
+  event: string;
+  created_at: string;
+  actor: GHActor | null;
+}
+export interface CollectedIssue extends GHIssue {
+  comments: GHIssueComment[] | null; // null when past the lookup cap
+  events: GHIssueEvent[] | null;
+}
+export interface GHRelease {
+  tag_name: string;
+  name: string | null;
+  draft: boolean;
+  prerelease: boolean;
+  published_at: string | null;
+  html_url: string;
+  author: GHActor | null;
+}
+export interface CollectedRelease extends GHRelease {
+  from_tag: boolean; // Synthesized from a tag when the repo has no releases
+}
+interface GHTag {
+  name: string;
+  commit: { sha: string };
+}
+export interface GHWorkflowRun {
+  head_branch: string | null;
+  head_sha: string;
+  conclusion: string | null;
+  created_at: string;
+  updated_at: string;
+}
+interface GHWorkflowRunPage {
+  total_count: number;
+  workflow_runs: GHWorkflowRun[];
+}
@@ -0,0 +1,69 @@
+// FILE: lib/github-errors.ts
+
+/**
+ * NexusPulse GitHub Error Taxonomy
+ * ─────────────────────────────────────────────────────────
+ * Every failed `ghFetch` call surfaces as one of these, so callers can
+ * tell "this repo does not exist" apart from "GitHub is having a bad day".
+ * The GitLab adapter rides the same transport and raises the same kinds.
+ */
+
+export type GitHubErrorKind =
+  | "not-found"     // 404 — repo missing, renamed or private
+  | "unauthorized"  // 401/403 — token invalid or lacks access
+  | "rate-limited"  // Quota exhausted or secondary limit persisted
+  | "network"       // Request never got an HTTP answer
+  | "upstream";     // 5xx from GitHub after retries
+
+export class GitHubError extends Error {
+  readonly kind: GitHubErrorKind;
+  readonly status: number | null;
+  readonly path: string;
+
+  constructor(kind: GitHubErrorKind, message: string, path: string, status: number | null) {
+    super(message);
+    this.name = "GitHubError";
+    this.kind = kind;
+    this.status = status;
+    this.path = path;
+  }
+}
+
+export class GitHubNotFoundError extends GitHubError {
+  constructor(path: string) {
+    super("not-found", `GitHub resource not found — ${path}`, path, 404);
+    this.name = "GitHubNotFoundError";
+  }
+}
+
+export class GitHubUnauthorizedError extends GitHubError {
+  constructor(path: string, status: number) {
+    super("unauthorized", `GitHub rejected the credentials (${status}) — ${path}`, path, status);
+    this.name = "GitHubUnauthorizedError";
+  }
+}
+
+export class GitHubRateLimitError extends GitHubError {
+  readonly resetAt: string; // ISO timestamp when requests may resume
+
+  constructor(path: string, status: number, resetAt: string) {
+    super("rate-limited", `GitHub rate limit hit until ${resetAt} — ${path}`, path, status);
+    this.name = "GitHubRateLimitError";
+    this.resetAt = resetAt;
+  }
+}
+
+export class GitHubNetworkError extends GitHubError {
+  constructor(path: string, cause: unknown) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super("network", `Network failure reaching GitHub: ${reason} — ${path}`, path, null);
+    this.name = "GitHubNetworkError";
+  }
+}
+
+export class GitHubUpstreamError extends GitHubError {
+  constructor(path: string, status: number, statusText: string) {
+    super("upstream", `GitHub API error: ${status} ${statusText} — ${path}`, path, status);
+    this.name = "GitHubUpstreamError";
+  }
+}
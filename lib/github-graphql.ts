@@ -0,0 +1,583 @@
+// FILE: lib/github-graphql.ts
+
+/**
+ * NexusPulse GraphQL v4 Data Path
+ * ─────────────────────────────────────────────────────────
+ * Pulls repo metadata, default-branch history, merged and open PRs, open
+ * issues, the window's issue traffic and releases (or tags) in one query
+ * (plus one per extra 100 commits or merged PRs) and normalizes the result
+ * into the REST v3 shapes the assembler already understands.
+ *
+ * Enabled with GITHUB_DATA_BACKEND=graphql. GITHUB_GRAPHQL_URL points the
+ * path at another endpoint, e.g. the fixture stub in scripts/graphql-stub.mjs.
+ */
+
+import {
+  GitHubNotFoundError,
+  GitHubRateLimitError,
+  GitHubUnauthorizedError,
+  GitHubUpstreamError,
+} from "./github-errors";
+import { GITHUB_API, ghFetch, type GHSession } from "./github-transport";
+import type {
+  CollectedOpenPR,
+  CollectedPR,
+  CollectedRelease,
+  CommitHistory,
+  CoreSourceResults,
+  CollectedIssue,
+  GHActor,
+  GHCommit,
+  GHIssue,
+  GHIssueEvent,
+  GHRepo,
+  GitHubRepo,
+} from "./github-client";
+
+const MAX_HISTORY_PAGES = 10; // Same 1,000-commit cap as the REST collector
+const MAX_MERGED_PR_PAGES = 10; // Same 1,000-PR cap as the REST collector
+
+// Timeline item types mapped to the REST issue event names
+const TRIAGE_EVENT_NAMES: Record<string, string> = {
+  LabeledEvent: "labeled",
+  AssignedEvent: "assigned",
+  MilestonedEvent: "milestoned",
+  ClosedEvent: "closed",
+};
+
+// ── QUERIES ───────────────────────────────────────────────────────────────────
+const HISTORY_FRAGMENT = `
+  fragment HistoryPage on CommitHistoryConnection {
+    pageInfo { hasNextPage endCursor }
+    nodes {
+      oid
+      message
+      url
+      author { name date user { login } }
+    }
+  }
+`;
+
+const MERGED_PR_FRAGMENT = `
+  fragment MergedPRPage on PullRequestConnection {
+    pageInfo { hasNextPage endCursor }
+    nodes {
+      number
+      title
+      createdAt
+      updatedAt
+      mergedAt
+      url
+      author { login }
+      reviews(first: 5) { nodes { submittedAt author { login } } }
+    }
+  }
+`;
+
+const RESPONDER_FRAGMENT = `
+  fragment Responder on Actor { __typename login }
+`;
+
+const DASHBOARD_QUERY = `
+  query Dashboard(
+    $owner: String!
+    $name: String!
+    $since: GitTimestamp!
+    $issuesSince: DateTime!
+  ) {
+    repository(owner: $owner, name: $name) {
+      nameWithOwner
+      isPrivate
+      description
+      stargazerCount
+      forkCount
+      url
+      defaultBranchRef {
+        name
+        target {
+          ... on Commit {
+            history(since: $since, first: 100) { ...HistoryPage }
+          }
+        }
+      }
+      pullRequests(states: MERGED, first: 100, orderBy: { field: UPDATED_AT, direction: DESC }) {
+        ...MergedPRPage
+      }
+      openPullRequests: pullRequests(states: OPEN, first: 100, orderBy: { field: CREATED_AT, direction: ASC }) {
+        nodes { number title createdAt updatedAt url isDraft reviewDecision author { login } }
+      }
+      issues(states: OPEN, first: 50, orderBy: { field: CREATED_AT, direction: DESC }) {
+        nodes {
+          number
+          title
+          state
+          createdAt
+          updatedAt
+          closedAt
+          url
+          author { login }
+          authorAssociation
+          milestone { title }
+          labels(first: 10) { nodes { name } }
+        }
+      }
+      windowIssues: issues(first: 100, filterBy: { since: $issuesSince }, orderBy: { field: CREATED_AT, direction: DESC }) {
+        nodes {
+          number
+          title
+          state
+          createdAt
+          updatedAt
+          closedAt
+          url
+          author { login }
+          authorAssociation
+          milestone { title }
+          labels(first: 10) { nodes { name } }
+          comments(first: 10) { nodes { createdAt authorAssociation author { ...Responder } } }
+          timelineItems(first: 10, itemTypes: [LABELED_EVENT, ASSIGNED_EVENT, MILESTONED_EVENT, CLOSED_EVENT]) {
+            nodes {
+              __typename
+              ... on LabeledEvent { createdAt actor { ...Responder } }
+              ... on AssignedEvent { createdAt actor { ...Responder } }
+              ... on MilestonedEvent { createdAt actor { ...Responder } }
+              ... on ClosedEvent { createdAt actor { ...Responder } }
+            }
+          }
+        }
+      }
+      releases(first: 50, orderBy: { field: CREATED_AT, direction: DESC }) {
+        nodes { tagName name isDraft isPrerelease publishedAt url author { login } }
+      }
+      tags: refs(refPrefix: "refs/tags/", first: 10, orderBy: { field: TAG_COMMIT_DATE, direction: DESC }) {
+        nodes {
+          name
+          target {
+            ... on Commit { committedDate }
+            ... on Tag { target { ... on Commit { committedDate } } }
+          }
+        }
+      }
+    }
+  }
+  ${HISTORY_FRAGMENT}
+  ${MERGED_PR_FRAGMENT}
+  ${RESPONDER_FRAGMENT}
+`;
+
+const COMMIT_PAGE_QUERY = `
+  query CommitPage($owner: String!, $name: String!, $since: GitTimestamp!, $after: String!) {
+    repository(owner: $owner, name: $name) {
+      defaultBranchRef {
+        target {
+          ... on Commit {
+            history(since: $since, first: 100, after: $after) { ...HistoryPage }
+          }
+        }
+      }
+    }
+  }
+  ${HISTORY_FRAGMENT}
+`;
+
+const MERGED_PR_PAGE_QUERY = `
+  query MergedPRPage($owner: String!, $name: String!, $after: String!) {
+    repository(owner: $owner, name: $name) {
+      pullRequests(states: MERGED, first: 100, after: $after, orderBy: { field: UPDATED_AT, direction: DESC }) {
+        ...MergedPRPage
+      }
+    }
+  }
+  ${MERGED_PR_FRAGMENT}
+`;
+
+// ── RESPONSE SHAPES ───────────────────────────────────────────────────────────
+interface GQLHistory {
+  pageInfo: { hasNextPage: boolean; endCursor: string | null };
+  nodes: {
+    oid: string;
+    message: string;
+    url: string;
+    author: { name: string | null; date: string | null; user: { login: string } | null } | null;
+  }[];
+}
+
+interface GQLMergedPRs {
+  pageInfo: { hasNextPage: boolean; endCursor: string | null };
+  nodes: {
+    number: number;
+    title: string;
+    createdAt: string;
+    updatedAt: string;
+    mergedAt: string | null;
+    url: string;
+    author: { login: string } | null;
+    reviews: {
+      nodes: { submittedAt: string | null; author: { login: string } | null }[];
+    };
+  }[];
+}
+
+interface GQLBranchRef {
+  name?: string;
+  target: { history?: GQLHistory } | null;
+}
+
+interface GQLDashboard {
+  repository: {
+    nameWithOwner: string;
+    isPrivate: boolean;
+    description: string | null;
+    stargazerCount: number;
+    forkCount: number;
+    url: string;
+    defaultBranchRef: GQLBranchRef | null;
+    pullRequests: GQLMergedPRs;
+    openPullRequests: {
+      nodes: {
+        number: number;
+        title: string;
+        createdAt: string;
+        updatedAt: string;
+        url: string;
+        isDraft: boolean;
+        reviewDecision: "REVIEW_REQUIRED" | "CHANGES_REQUESTED" | "APPROVED" | null;
+        author: { login: string } | null;
+      }[];
+    };
+    issues: { nodes: GQLIssue[] };
+    windowIssues: {
+      nodes: (GQLIssue & {
+        comments: {
+          nodes: { createdAt: string; authorAssociation: string; author: GQLActor | null }[];
+        };
+        timelineItems: {
+          nodes: { __typename: string; createdAt?: string; actor?: GQLActor | null }[];
+        };
+      })[];
+    };
+    releases: {
+      nodes: {
+        tagName: string;
+        name: string | null;
+        isDraft: boolean;
+        isPrerelease: boolean;
+        publishedAt: string | null;
+        url: string;
+        author: { login: string } | null;
+      }[];
+    };
+    tags: {
+      nodes: {
+        name: string;
+        // Lightweight tags point at a commit, annotated tags at a Tag object
+        target: { committedDate?: string; target?: { committedDate?: string } } | null;
+      }[];
+    };
+  } | null;
+}
+
+interface GQLIssue {
+  number: number;
+  title: string;
+  state: "OPEN" | "CLOSED";
+  createdAt: string;
+  updatedAt: string;
+  closedAt: string | null;
+  url: string;
+  author: { login: string } | null;
+  authorAssociation: string;
+  milestone: { title: string } | null;
+  labels: { nodes: { name: string }[] };
+}
+
+interface GQLActor {
+  __typename: string;
+  login: string;
+}
+
+interface GQLCommitPage {
+  repository: { defaultBranchRef: GQLBranchRef | null } | null;
+}
+
+interface GQLMergedPRPage {
+  repository: { pullRequests: GQLMergedPRs } | null;
+}
+
+interface GQLError {
+  type?: string;
+  message: string;
+}
+
+// ── TRANSPORT ─────────────────────────────────────────────────────────────────
+function graphqlEndpoint(): string {
+  return process.env.GITHUB_GRAPHQL_URL ?? `${GITHUB_API}/graphql`;
+}
+
+async function ghGraphQL<T>(
+  query: string,
+  variables: Record<string, unknown>,
+  session: GHSession
+): Promise<T> {
+  const endpoint = graphqlEndpoint();
+  const body = await ghFetch<{ data: T | null; errors?: GQLError[] }>(endpoint, session, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ query, variables }),
+  });
+
+  // GraphQL reports most failures inside a 200 response
+  const [error] = body.errors ?? [];
+  if (error) {
+    const path = `${endpoint} (${error.message})`;
+    switch (error.type) {
+      case "NOT_FOUND":
+        throw new GitHubNotFoundError(path);
+      case "FORBIDDEN":
+        throw new GitHubUnauthorizedError(path, 403);
+      case "RATE_LIMITED":
+        throw new GitHubRateLimitError(
+          path,
+          200,
+          session.rateLimit?.resetAt ?? new Date(Date.now() + 60_000).toISOString()
+        );
+      default:
+        if (!body.data) throw new GitHubUpstreamError(path, 200, error.message);
+    }
+  }
+
+  if (!body.data) throw new GitHubUpstreamError(endpoint, 200, "empty GraphQL response");
+  return body.data;
+}
+
+// ── NORMALIZATION ─────────────────────────────────────────────────────────────
+function toGHCommits(history: GQLHistory | undefined): GHCommit[] {
+  return (history?.nodes ?? []).map((node) => ({
+    sha: node.oid,
+    commit: {
+      message: node.message,
+      author:
+        node.author?.date != null
+          ? { name: node.author.name ?? "unknown", date: node.author.date }
+          : null,
+    },
+    author: node.author?.user ? { login: node.author.user.login } : null,
+    html_url: node.url,
+  }));
+}
+
+function toGHIssue(issue: GQLIssue): GHIssue {
+  return {
+    number: issue.number,
+    title: issue.title,
+    state: issue.state.toLowerCase(),
+    created_at: issue.createdAt,
+    updated_at: issue.updatedAt,
+    closed_at: issue.closedAt,
+    user: issue.author,
+    author_association: issue.authorAssociation,
+    milestone: issue.milestone,
+    html_url: issue.url,
+    labels: issue.labels.nodes,
+  };
+}
+
+function toGHActor(actor: GQLActor | null | undefined): GHActor | null {
+  return actor ? { login: actor.login, type: actor.__typename } : null;
+}
+
+async function collectHistory(
+  target: GitHubRepo,
+  since: string,
+  firstPage: GQLHistory | undefined,
+  session: GHSession
+): Promise<CommitHistory> {
+  const commits = toGHCommits(firstPage);
+  let pageInfo = firstPage?.pageInfo;
+  let pages = 1;
+
+  while (pageInfo?.hasNextPage && pageInfo.endCursor && pages < MAX_HISTORY_PAGES) {
+    const page = await ghGraphQL<GQLCommitPage>(
+      COMMIT_PAGE_QUERY,
+      { owner: target.owner, name: target.repo, since, after: pageInfo.endCursor },
+      session
+    );
+    const history = page.repository?.defaultBranchRef?.target?.history;
+    commits.push(...toGHCommits(history));
+    pageInfo = history?.pageInfo;
+    pages++;
+  }
+
+  return { commits, truncated: pageInfo?.hasNextPage ?? false };
+}
+
+// Merged PRs come newest-updated first; a merge bumps updatedAt, so once a
+// page reaches past the window no later page can hold a PR merged in it
+async function collectMergedPRs(
+  target: GitHubRepo,
+  since: string,
+  firstPage: GQLMergedPRs,
+  session: GHSession
+): Promise<CollectedPR[]> {
+  const nodes = [...firstPage.nodes];
+  let pageInfo = firstPage.pageInfo;
+  let pages = 1;
+
+  while (
+    pageInfo?.hasNextPage &&
+    pageInfo.endCursor &&
+    pages < MAX_MERGED_PR_PAGES &&
+    (nodes[nodes.length - 1]?.updatedAt ?? "") >= since
+  ) {
+    const page = await ghGraphQL<GQLMergedPRPage>(
+      MERGED_PR_PAGE_QUERY,
+      { owner: target.owner, name: target.repo, after: pageInfo.endCursor },
+      session
+    );
+    const pullRequests = page.repository?.pullRequests;
+    nodes.push(...(pullRequests?.nodes ?? []));
+    pageInfo = pullRequests?.pageInfo ?? { hasNextPage: false, endCursor: null };
+    pages++;
+  }
+
+  return nodes
+    .filter((pr) => pr.mergedAt !== null && pr.mergedAt >= since)
+    .sort((a, b) => (b.mergedAt ?? "").localeCompare(a.mergedAt ?? ""))
+    .map((pr) => ({
+      number: pr.number,
+      title: pr.title,
+      created_at: pr.createdAt,
+      updated_at: pr.updatedAt,
+      merged_at: pr.mergedAt,
+      first_review_at:
+        pr.reviews.nodes.find(
+          (r) => r.submittedAt && r.author?.login !== pr.author?.login
+        )?.submittedAt ?? null,
+      user: pr.author,
+      html_url: pr.url,
+    }));
+}
+
+// ── COLLECTOR ─────────────────────────────────────────────────────────────────
+export async function collectViaGraphQL(
+  target: GitHubRepo,
+  since: string,
+  session: GHSession
+): Promise<CoreSourceResults> {
+  let data: GQLDashboard;
+  try {
+    data = await ghGraphQL<GQLDashboard>(
+      DASHBOARD_QUERY,
+      { owner: target.owner, name: target.repo, since, issuesSince: since },
+      session
+    );
+  } catch (error) {
+    // One query feeds every source, so they share its fate
+    const failed: PromiseRejectedResult = { status: "rejected", reason: error };
+    return [failed, failed, failed, failed, failed, failed, failed];
+  }
+
+  const repository = data.repository;
+  if (!repository) {
+    const failed: PromiseRejectedResult = {
+      status: "rejected",
+      reason: new GitHubNotFoundError(`${graphqlEndpoint()} (${target.owner}/${target.repo})`),
+    };
+    return [failed, failed, failed, failed, failed, failed, failed];
+  }
+
+  const repo: GHRepo = {
+    full_name: repository.nameWithOwner,
+    private: repository.isPrivate,
+    default_branch: repository.defaultBranchRef?.name ?? "main",
+    description: repository.description,
+    stargazers_count: repository.stargazerCount,
+    forks_count: repository.forkCount,
+    html_url: repository.url,
+  };
+
+  // reviewDecision is null when the repo has no review requirement; without
+  // a verdict the PR is still waiting on someone
+  const openPRs: CollectedOpenPR[] = repository.openPullRequests.nodes.map((pr) => ({
+    number: pr.number,
+    title: pr.title,
+    draft: pr.isDraft,
+    created_at: pr.createdAt,
+    updated_at: pr.updatedAt,
+    merged_at: null,
+    user: pr.author,
+    html_url: pr.url,
+    review_state: pr.isDraft
+      ? "unknown"
+      : pr.reviewDecision === "CHANGES_REQUESTED"
+      ? "changes-requested"
+      : pr.reviewDecision === "APPROVED"
+      ? "approved"
+      : "awaiting-review",
+  }));
+
+  const issues: GHIssue[] = repository.issues.nodes.map(toGHIssue);
+
+  // filterBy.since matches on last update, so keep only issues that were
+  // opened or closed inside the window — as the REST collector does
+  const issueActivity: CollectedIssue[] = repository.windowIssues.nodes
+    .filter((issue) => issue.createdAt >= since || (issue.closedAt ?? "") >= since)
+    .map((issue) => ({
+      ...toGHIssue(issue),
+      comments: issue.comments.nodes.map((c) => ({
+        created_at: c.createdAt,
+        author_association: c.authorAssociation,
+        user: toGHActor(c.author),
+      })),
+      events: issue.timelineItems.nodes
+        .filter((e) => e.createdAt && TRIAGE_EVENT_NAMES[e.__typename])
+        .map((e): GHIssueEvent => ({
+          event: TRIAGE_EVENT_NAMES[e.__typename],
+          created_at: e.createdAt!,
+          actor: toGHActor(e.actor),
+        })),
+    }));
+
+  // Same fallback as REST: bare tags stand in when nothing was ever released
+  const published = repository.releases.nodes.filter(
+    (r) => !r.isDraft && r.publishedAt !== null
+  );
+  const releases: CollectedRelease[] =
+    published.length > 0
+      ? published.map((r) => ({
+          tag_name: r.tagName,
+          name: r.name,
+          draft: false,
+          prerelease: r.isPrerelease,
+          published_at: r.publishedAt,
+          html_url: r.url,
+          author: r.author,
+          from_tag: false,
+        }))
+      : repository.tags.nodes.map((tag) => ({
+          tag_name: tag.name,
+          name: null,
+          draft: false,
+          prerelease: false,
+          published_at:
+            tag.target?.committedDate ?? tag.target?.target?.committedDate ?? null,
+          html_url: `${repository.url}/tree/${encodeURIComponent(tag.name)}`,
+          author: null,
+          from_tag: true,
+        }));
+
+  const [commits, prs] = await Promise.allSettled([
+    collectHistory(target, since, repository.defaultBranchRef?.target?.history, session),
+    collectMergedPRs(target, since, repository.pullRequests, session),
+  ]);
+
+  return [
+    { status: "fulfilled", value: repo },
+    commits,
+    prs,
+    { status: "fulfilled", value: openPRs },
+    { status: "fulfilled", value: issues },
+    { status: "fulfilled", value: issueActivity },
+    { status: "fulfilled", value: releases },
+  ];
+}
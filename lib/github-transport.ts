@@ -0,0 +1,232 @@
+// FILE: lib/github-transport.ts
+
+/**
+ * NexusPulse GitHub Transport — ghFetch and friends
+ * ─────────────────────────────────────────────────────────
+ * One place for auth headers, quota tracking, retries with jittered
+ * backoff and conditional (ETag) requests. Shared by the REST and
+ * GraphQL data paths, and by the GitLab adapter, which passes absolute URLs.
+ */
+
+import {
+  GitHubError,
+  GitHubNetworkError,
+  GitHubNotFoundError,
+  GitHubRateLimitError,
+  GitHubUnauthorizedError,
+  GitHubUpstreamError,
+} from "./github-errors";
+
+// Overridable so local stubs or the fixture recorder can stand in for api.github.com
+export const GITHUB_API = process.env.GITHUB_API_URL ?? "https://api.github.com";
+
+export interface RateLimitInfo {
+  limit: number;
+  remaining: number;
+  used: number;
+  resetAt: string;   // ISO timestamp when the quota window resets
+  resource: string;  // "core", "search", "graphql", …
+}
+
+const MAX_RETRIES = 3;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 10_000;
+const MAX_RETRY_AFTER_MS = 60_000; // Longer waits are surfaced, not slept through
+const ETAG_CACHE_LIMIT = 500;
+
+// Per-load request context: credentials plus the latest quota snapshot
+export interface GHSession {
+  token: string; // Empty for anonymous reads (public Gitea instances)
+  rateLimit: RateLimitInfo | null;
+  quotaResource: string; // Which X-RateLimit-Resource to report ("core" or "graphql")
+  cacheTag?: string;     // Next data-cache tag, so a webhook can revalidate this repo's responses
+}
+
+export interface GHResponse<T> {
+  data: T;
+  headers: Headers;
+}
+
+// Conditional-request cache. Lives for the lifetime of the isolate; a 304
+// answered from here does not count against the token's quota.
+interface ETagEntry {
+  etag: string;
+  data: unknown;
+  headers: Headers;
+}
+const etagCache = new Map<string, ETagEntry>();
+
+function rememberETag(key: string, entry: ETagEntry) {
+  etagCache.delete(key);
+  etagCache.set(key, entry);
+  if (etagCache.size > ETAG_CACHE_LIMIT) {
+    // Map iteration order is insertion order — drop the oldest entry
+    const oldest = etagCache.keys().next().value;
+    if (oldest !== undefined) etagCache.delete(oldest);
+  }
+}
+
+// GitLab sends the same figures without the X- prefix and no resource name
+function readRateLimit(headers: Headers): RateLimitInfo | null {
+  const limit = headers.get("x-ratelimit-limit") ?? headers.get("ratelimit-limit");
+  const remaining = headers.get("x-ratelimit-remaining") ?? headers.get("ratelimit-remaining");
+  const reset = headers.get("x-ratelimit-reset") ?? headers.get("ratelimit-reset");
+  if (limit === null || remaining === null || reset === null) return null;
+
+  return {
+    limit: Number(limit),
+    remaining: Number(remaining),
+    used: Number(
+      headers.get("x-ratelimit-used") ??
+        headers.get("ratelimit-observed") ??
+        Number(limit) - Number(remaining)
+    ),
+    resetAt: new Date(Number(reset) * 1000).toISOString(),
+    resource: headers.get("x-ratelimit-resource") ?? "core",
+  };
+}
+
+// Retry-After is either delta-seconds or an HTTP date
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// Full-jitter exponential backoff
+function backoffDelay(attempt: number): number {
+  const ceiling = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+  return Math.random() * ceiling;
+}
+
+// Secondary limits come back as 403/429 while primary quota is still left.
+// Every authenticated 403 carries quota headers, so a 403 only counts when
+// GitHub says so: a Retry-After, or the message naming the secondary limit.
+// Anything else (no access, SSO, blocked repo) is a plain "forbidden".
+function isSecondaryRateLimit(res: Response, message: string): boolean {
+  if (res.status === 429) return true;
+  if (res.status !== 403) return false;
+  return res.headers.get("retry-after") !== null || /secondary rate limit/i.test(message);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export async function ghRequest<T>(
+  path: string,
+  session: GHSession,
+  options: RequestInit = {}
+): Promise<GHResponse<T>> {
+  const cacheKey = `${session.token.slice(-8)}:${path}`;
+  // Only GETs are conditional — GraphQL POSTs share one URL across queries
+  const conditional = (options.method ?? "GET") === "GET";
+
+  for (let attempt = 0; ; attempt++) {
+    const cached = conditional ? etagCache.get(cacheKey) : undefined;
+    let res: Response;
+    try {
+      res = await fetch(path.startsWith("http") ? path : `${GITHUB_API}${path}`, {
+        ...options,
+        headers: {
+          ...(session.token ? { Authorization: `Bearer ${session.token}` } : {}),
+          Accept: "application/vnd.github.v3+json",
+          "X-GitHub-Api-Version": "2022-11-28",
+          "User-Agent": "NexusPulse-OS/1.0",
+          ...(cached ? { "If-None-Match": cached.etag } : {}),
+          ...options.headers,
+        },
+        next: { revalidate: 300, tags: session.cacheTag ? [session.cacheTag] : undefined },
+      });
+    } catch (cause) {
+      if (attempt >= MAX_RETRIES) throw new GitHubNetworkError(path, cause);
+      await sleep(backoffDelay(attempt));
+      continue;
+    }
+
+    const rateLimit = readRateLimit(res.headers);
+    if (rateLimit && rateLimit.resource === session.quotaResource) session.rateLimit = rateLimit;
+
+    if (res.status === 304 && cached) {
+      return { data: cached.data as T, headers: cached.headers };
+    }
+
+    if (res.ok) {
+      // 204 No Content: e.g. contributors of an empty repository
+      const data = (res.status === 204 ? null : await res.json()) as T;
+      const etag = res.headers.get("etag");
+      if (etag && conditional) rememberETag(cacheKey, { etag, data, headers: res.headers });
+      return { data, headers: res.headers };
+    }
+
+    // The body is only needed to tell a secondary limit from a plain 403
+    const message = res.status === 403 ? await res.text().catch(() => "") : "";
+    const retryable = res.status >= 500 || isSecondaryRateLimit(res, message);
+    const retryAfter = parseRetryAfter(res.headers.get("retry-after"));
+
+    if (
+      !retryable ||
+      attempt >= MAX_RETRIES ||
+      (retryAfter !== null && retryAfter > MAX_RETRY_AFTER_MS)
+    ) {
+      throw classifyFailure(res, message, path, rateLimit, retryAfter);
+    }
+
+    const delay = retryAfter ?? backoffDelay(attempt);
+    console.warn(
+      `[NexusPulse] ${res.status} on ${path}, retry ${attempt + 1}/${MAX_RETRIES} in ${Math.round(delay)}ms`
+    );
+    await sleep(delay);
+  }
+}
+
+// Maps a final non-OK response onto the GitHubError taxonomy
+function classifyFailure(
+  res: Response,
+  message: string,
+  path: string,
+  rateLimit: RateLimitInfo | null,
+  retryAfter: number | null
+): GitHubError {
+  if (res.status === 404) return new GitHubNotFoundError(path);
+
+  const quotaExhausted = rateLimit !== null && rateLimit.remaining === 0;
+  if (res.status === 429 || (res.status === 403 && (quotaExhausted || isSecondaryRateLimit(res, message)))) {
+    const resetAt =
+      retryAfter !== null
+        ? new Date(Date.now() + retryAfter).toISOString()
+        : rateLimit?.resetAt ?? new Date(Date.now() + MAX_RETRY_AFTER_MS).toISOString();
+    return new GitHubRateLimitError(path, res.status, resetAt);
+  }
+
+  if (res.status === 401 || res.status === 403) {
+    return new GitHubUnauthorizedError(path, res.status);
+  }
+
+  return new GitHubUpstreamError(path, res.status, res.statusText);
+}
+
+export async function ghFetch<T>(
+  path: string,
+  session: GHSession,
+  options: RequestInit = {}
+): Promise<T> {
+  const { data } = await ghRequest<T>(path, session, options);
+  return data;
+}
+
+// Extracts the rel="next" target from a Link header as an API-relative path
+export function parseNextLink(link: string | null): string | null {
+  if (!link) return null;
+  const match = link.match(/<([^>]+)>;\s*rel="next"/);
+  if (!match) return null;
+  return match[1].startsWith(GITHUB_API) ? match[1].slice(GITHUB_API.length) : match[1];
+}
+
+export function parseLastPage(link: string | null): number | null {
+  if (!link) return null;
+  const match = link.match(/[?&]page=(\d+)[^>]*>;\s*rel="last"/);
+  return match ? Number(match[1]) : null;
+}
@@ -0,0 +1,63 @@
+// FILE: lib/github-webhooks.ts
+
+/**
+ * NexusPulse GitHub Webhooks — signature check and event routing
+ * ─────────────────────────────────────────────────────────
+ * GitHub signs each delivery with the webhook secret: X-Hub-Signature-256
+ * is "sha256=" + hex HMAC-SHA256 of the raw body. Web Crypto's HMAC verify
+ * compares in constant time.
+ *
+ * Events that move a dashboard figure invalidate that repo's cache:
+ *
+ *   push           commits, authors, CI (a new run follows)
+ *   pull_request   merge times, review latency, backlog, newcomers
+ *   issues         responsiveness, flow, stale count
+ *   release        cadence
+ *
+ * Works for repository, organization and GitHub App webhooks alike.
+ */
+
+import type { GitHubRepo } from "./github-client";
+
+export const INVALIDATING_EVENTS = new Set(["push", "pull_request", "issues", "release"]);
+
+const SIGNATURE_PREFIX = "sha256=";
+
+// Signed is not well-formed: every field may be missing
+export interface WebhookPayload {
+  repository?: { name?: string; owner?: { login?: string } | null } | null;
+}
+
+function hexToBytes(hex: string): Uint8Array<ArrayBuffer> | null {
+  if (hex.length % 2 !== 0 || /[^0-9a-f]/i.test(hex)) return null;
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  return bytes;
+}
+
+export async function verifyWebhookSignature(
+  secret: string,
+  body: Uint8Array<ArrayBuffer>,
+  header: string | null
+): Promise<boolean> {
+  if (!header?.startsWith(SIGNATURE_PREFIX)) return false;
+  const signature = hexToBytes(header.slice(SIGNATURE_PREFIX.length));
+  if (!signature) return false;
+
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["verify"]
+  );
+  return crypto.subtle.verify("HMAC", key, signature, body);
+}
+
+// Events without a repository (e.g. installation, an org hook's ping) have
+// nothing to invalidate
+export function webhookTarget(payload: WebhookPayload | null): GitHubRepo | null {
+  const owner = payload?.repository?.owner?.login;
+  const repo = payload?.repository?.name;
+  return typeof owner === "string" && typeof repo === "string" ? { owner, repo } : null;
+}
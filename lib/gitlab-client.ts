@@ -0,0 +1,577 @@
+// FILE: lib/gitlab-client.ts
+
+/**
+ * NexusPulse GitLab Adapter — REST v4
+ * ─────────────────────────────────────────────────────────
+ * Collects a GitLab project's activity and normalizes it into the REST v3
+ * shapes the assembler already understands, as the GraphQL path does.
+ * Merge requests stand in for PRs, pipelines for Actions runs.
+ *
+ * GITLAB_TOKEN is sent as a Bearer token (unset or "mock" switches to mock
+ * data). GITLAB_API_URL points the adapter at a self-managed instance or
+ * the fixture stub in scripts/gitlab-stub.mjs.
+ *
+ * GitLab has no author_association: project members with Developer access
+ * or above count as maintainers, and a newcomer is an author with no merged
+ * MR from before the window.
+ */
+
+import {
+  WINDOW_DAYS,
+  assembleDashboard,
+  buildMockDashboard,
+  type CollectedIssue,
+  type CollectedOpenPR,
+  type CollectedPR,
+  type CollectedRelease,
+  type CollectedWindowPR,
+  type CommitHistory,
+  type FetchOptions,
+  type FullDashboardData,
+  type GHActor,
+  type GHCommit,
+  type GHIssue,
+  type GHIssueEvent,
+  type GHPR,
+  type GHRepo,
+  type GHWorkflowRun,
+  type GitHubRepo,
+  type ReviewState,
+} from "./github-client";
+import {
+  ghFetch,
+  ghRequest,
+  parseLastPage,
+  parseNextLink,
+  type GHSession,
+} from "./github-transport";
+
+const GITLAB_API = process.env.GITLAB_API_URL ?? "https://gitlab.com/api/v4";
+const GITLAB_WEB = GITLAB_API.replace(/\/api\/v4\/?$/, "");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PER_PAGE = 100;
+const MAX_COMMIT_PAGES = 10;      // Same 1,000-commit cap as GitHub
+const MAX_MERGED_MR_PAGES = 10;   // Same 1,000-PR cap as GitHub
+const MAX_REVIEW_LOOKUPS = 30;    // One notes / approvals call per MR
+const MAX_OPEN_MR_PAGES = 3;
+const MAX_ISSUE_PAGES = 3;
+const MAX_RESPONSE_LOOKUPS = 30;  // Notes + label + state events per issue
+const MAX_PIPELINE_PAGES = 3;
+const MAX_WINDOW_MR_PAGES = 2;
+const MAX_NEWCOMER_LOOKUPS = 15;  // One merged-MR lookup per author
+const MAX_TAGS = 10;
+const DEVELOPER_ACCESS = 30;      // Access level with push rights
+
+// Project and group access tokens act through bot users named like this
+const BOT_USERNAME = /^(project|group)_\d+_bot/;
+
+// Triage actions that still surface as system notes rather than resource events
+const SYSTEM_NOTE_EVENTS: [RegExp, string][] = [
+  [/^assigned to /, "assigned"],
+  [/^changed milestone to /, "milestoned"],
+];
+
+// ── TRANSPORT ─────────────────────────────────────────────────────────────────
+function projectUrl(target: GitHubRepo): string {
+  return `${GITLAB_API}/projects/${encodeURIComponent(`${target.owner}/${target.repo}`)}`;
+}
+
+// Follows rel="next" links for up to maxPages pages; `done` ends the walk
+// early once a page reaches past what is needed
+async function collectPages<T>(
+  url: string,
+  maxPages: number,
+  session: GHSession,
+  done: (page: T[]) => boolean = () => false
+): Promise<{ items: T[]; truncated: boolean }> {
+  const items: T[] = [];
+  let next: string | null = url;
+  let pages = 0;
+
+  while (next && pages < maxPages) {
+    const { data, headers } = await ghRequest<T[]>(next, session);
+    items.push(...data);
+    next = parseNextLink(headers.get("link"));
+    pages++;
+    if (done(data)) break;
+  }
+
+  return { items, truncated: next !== null };
+}
+
+// ── NORMALIZATION ─────────────────────────────────────────────────────────────
+function toGHActor(user: GLUser | null): GHActor | null {
+  if (!user) return null;
+  return { login: user.username, type: BOT_USERNAME.test(user.username) ? "Bot" : undefined };
+}
+
+function toGHPR(mr: GLMergeRequest): GHPR {
+  return {
+    number: mr.iid,
+    title: mr.title,
+    draft: mr.draft,
+    created_at: mr.created_at,
+    updated_at: mr.updated_at,
+    merged_at: mr.merged_at,
+    user: mr.author ? { login: mr.author.username } : null,
+    html_url: mr.web_url,
+  };
+}
+
+function toGHIssue(issue: GLIssue): GHIssue {
+  return {
+    number: issue.iid,
+    title: issue.title,
+    state: issue.state === "opened" ? "open" : "closed",
+    created_at: issue.created_at,
+    updated_at: issue.updated_at,
+    closed_at: issue.closed_at,
+    user: toGHActor(issue.author),
+    milestone: issue.milestone ? { title: issue.milestone.title } : null,
+    html_url: issue.web_url,
+    labels: issue.labels.map((name) => ({ name })),
+  };
+}
+
+// ── COLLECTORS ────────────────────────────────────────────────────────────────
+async function fetchProject(project: string, session: GHSession): Promise<GHRepo> {
+  const data = await ghFetch<GLProject>(project, session);
+  return {
+    full_name: data.path_with_namespace,
+    private: data.visibility !== "public",
+    default_branch: data.default_branch ?? "main",
+    description: data.description || null,
+    stargazers_count: data.star_count,
+    forks_count: data.forks_count,
+    html_url: data.web_url,
+  };
+}
+
+// Without a ref_name the commits endpoint walks the default branch
+async function collectCommits(
+  project: string,
+  since: string,
+  session: GHSession
+): Promise<CommitHistory> {
+  const { items, truncated } = await collectPages<GLCommit>(
+    `${project}/repository/commits?since=${since}&per_page=${PER_PAGE}`,
+    MAX_COMMIT_PAGES,
+    session
+  );
+  const commits: GHCommit[] = items.map((c) => ({
+    sha: c.id,
+    commit: { message: c.message, author: { name: c.author_name, date: c.authored_date } },
+    author: null, // GitLab links commits to emails, not accounts
+    html_url: c.web_url,
+  }));
+  return { commits, truncated };
+}
+
+// MRs merged inside the window. The first review is the first note by
+// someone other than the author — a comment, or an approval system note.
+async function collectMergedMRs(
+  project: string,
+  since: string,
+  session: GHSession
+): Promise<CollectedPR[]> {
+  // A merge bumps updated_at, so once a page reaches past the window no
+  // later page can hold an MR merged in it
+  const { items: recent } = await collectPages<GLMergeRequest>(
+    `${project}/merge_requests?state=merged&updated_after=${since}&order_by=updated_at&sort=desc&per_page=${PER_PAGE}`,
+    MAX_MERGED_MR_PAGES,
+    session,
+    (page) => page.length > 0 && page[page.length - 1].updated_at < since
+  );
+  const merged = recent
+    .filter((mr) => mr.merged_at !== null && mr.merged_at >= since)
+    .sort((a, b) => (b.merged_at ?? "").localeCompare(a.merged_at ?? ""));
+
+  return Promise.all(
+    merged.map(async (mr, i) => {
+      if (i >= MAX_REVIEW_LOOKUPS) return { ...toGHPR(mr), first_review_at: null };
+      const notes = await ghFetch<GLNote[]>(
+        `${project}/merge_requests/${mr.iid}/notes?sort=asc&order_by=created_at&per_page=30`,
+        session
+      );
+      const first = notes.find(
+        (n) =>
+          (!n.system || /^(approved|requested changes)/.test(n.body)) &&
+          n.author?.username !== mr.author?.username
+      );
+      return { ...toGHPR(mr), first_review_at: first?.created_at ?? null };
+    })
+  );
+}
+
+// Open MRs, oldest first. Changes requested shows in detailed_merge_status;
+// otherwise the approvals endpoint decides (drafts are not looked up)
+async function collectOpenMRs(project: string, session: GHSession): Promise<CollectedOpenPR[]> {
+  const { items: open } = await collectPages<GLMergeRequest>(
+    `${project}/merge_requests?state=opened&order_by=created_at&sort=asc&per_page=${PER_PAGE}`,
+    MAX_OPEN_MR_PAGES,
+    session
+  );
+
+  let lookups = 0;
+  return Promise.all(
+    open.map(async (mr) => {
+      const pr = { ...toGHPR(mr), draft: mr.draft };
+      if (mr.draft) return { ...pr, review_state: "unknown" as ReviewState };
+      if (mr.detailed_merge_status === "requested_changes") {
+        return { ...pr, review_state: "changes-requested" as ReviewState };
+      }
+      if (lookups++ >= MAX_REVIEW_LOOKUPS) return { ...pr, review_state: "unknown" as ReviewState };
+
+      const approvals = await ghFetch<GLApprovals>(
+        `${project}/merge_requests/${mr.iid}/approvals`,
+        session
+      );
+      const approved = approvals.approved_by.some(
+        (a) => a.user.username !== mr.author?.username
+      );
+      return { ...pr, review_state: (approved ? "approved" : "awaiting-review") as ReviewState };
+    })
+  );
+}
+
+async function collectOpenIssues(project: string, session: GHSession): Promise<GHIssue[]> {
+  const issues = await ghFetch<GLIssue[]>(
+    `${project}/issues?state=opened&order_by=created_at&sort=desc&per_page=50`,
+    session
+  );
+  return issues.map(toGHIssue);
+}
+
+// Usernames with push rights, inherited group memberships included
+async function fetchMaintainers(project: string, session: GHSession): Promise<Set<string>> {
+  const members = await ghFetch<GLMember[]>(
+    `${project}/members/all?per_page=${PER_PAGE}`,
+    session
+  );
+  return new Set(
+    members.filter((m) => m.access_level >= DEVELOPER_ACCESS).map((m) => m.username)
+  );
+}
+
+// Issues opened or closed inside the window. Member comments and triage
+// events are looked up for the newest MAX_RESPONSE_LOOKUPS opened in it.
+async function collectIssueActivity(
+  project: string,
+  since: string,
+  maintainers: Promise<Set<string>>,
+  session: GHSession
+): Promise<CollectedIssue[]> {
+  const [{ items: touched }, members] = await Promise.all([
+    collectPages<GLIssue>(
+      `${project}/issues?updated_after=${since}&order_by=created_at&sort=desc&per_page=${PER_PAGE}`,
+      MAX_ISSUE_PAGES,
+      session
+    ),
+    maintainers,
+  ]);
+
+  // updated_after matches label edits and bot activity too
+  const inWindow = touched.filter(
+    (i) => i.created_at >= since || (i.closed_at ?? "") >= since
+  );
+
+  let lookups = 0;
+  return Promise.all(
+    inWindow.map(async (issue) => {
+      const normalized = toGHIssue(issue);
+      if (issue.created_at < since || lookups++ >= MAX_RESPONSE_LOOKUPS) {
+        return { ...normalized, comments: null, events: null };
+      }
+
+      const path = `${project}/issues/${issue.iid}`;
+      const [notes, labelEvents, stateEvents] = await Promise.all([
+        ghFetch<GLNote[]>(`${path}/notes?sort=asc&order_by=created_at&per_page=30`, session),
+        ghFetch<GLResourceEvent[]>(`${path}/resource_label_events?per_page=30`, session),
+        ghFetch<GLResourceEvent[]>(`${path}/resource_state_events?per_page=30`, session),
+      ]);
+
+      const noteEvents = notes.flatMap((n): GHIssueEvent[] => {
+        const match = n.system && SYSTEM_NOTE_EVENTS.find(([pattern]) => pattern.test(n.body));
+        return match ? [{ event: match[1], created_at: n.created_at, actor: toGHActor(n.author) }] : [];
+      });
+
+      return {
+        ...normalized,
+        comments: notes
+          .filter((n) => !n.system)
+          .map((n) => ({
+            created_at: n.created_at,
+            author_association: n.author && members.has(n.author.username) ? "MEMBER" : "NONE",
+            user: toGHActor(n.author),
+          })),
+        events: [
+          ...noteEvents,
+          ...labelEvents
+            .filter((e) => e.action === "add")
+            .map((e) => ({ event: "labeled", created_at: e.created_at, actor: toGHActor(e.user) })),
+          ...stateEvents
+            .filter((e) => e.state === "closed")
+            .map((e) => ({ event: "closed", created_at: e.created_at, actor: toGHActor(e.user) })),
+        ],
+      };
+    })
+  );
+}
+
+// Releases, or the newest tags dated by their commit when the project has
+// never cut one. GitLab has no prerelease flag; upcoming releases are skipped.
+async function collectReleases(
+  project: string,
+  target: GitHubRepo,
+  session: GHSession
+): Promise<CollectedRelease[]> {
+  const releases = await ghFetch<GLRelease[]>(`${project}/releases?per_page=50`, session);
+  const published = releases.filter((r) => !r.upcoming_release);
+  if (published.length > 0) {
+    return published.map((r) => ({
+      tag_name: r.tag_name,
+      name: r.name || null,
+      draft: false,
+      prerelease: false,
+      published_at: r.released_at,
+      html_url: r._links?.self ?? `${GITLAB_WEB}/${target.owner}/${target.repo}/-/releases`,
+      author: toGHActor(r.author),
+      from_tag: false,
+    }));
+  }
+
+  // Unlike GitHub, tags carry their commit — no per-tag lookups needed
+  const tags = await ghFetch<GLTag[]>(
+    `${project}/repository/tags?order_by=updated&sort=desc&per_page=${MAX_TAGS}`,
+    session
+  );
+  return tags.map((tag) => ({
+    tag_name: tag.name,
+    name: null,
+    draft: false,
+    prerelease: false,
+    published_at: tag.commit?.committed_date ?? null,
+    html_url: `${GITLAB_WEB}/${target.owner}/${target.repo}/-/tags/${encodeURIComponent(tag.name)}`,
+    author: null,
+    from_tag: true,
+  }));
+}
+
+// X-Total is omitted past 10,000 rows; the rel="last" page stands in then
+async function countContributors(project: string, session: GHSession): Promise<number> {
+  const { data, headers } = await ghRequest<GLContributor[] | null>(
+    `${project}/repository/contributors?per_page=1`,
+    session
+  );
+  const total = headers.get("x-total");
+  if (total !== null) return Number(total);
+  return parseLastPage(headers.get("link")) ?? (Array.isArray(data) ? data.length : 0);
+}
+
+// Push pipelines updated inside the window, on any ref — the assembler keeps
+// the default branch's. "failed" maps onto the Actions "failure" conclusion.
+async function collectPipelines(
+  project: string,
+  since: string,
+  session: GHSession
+): Promise<GHWorkflowRun[]> {
+  const { items } = await collectPages<GLPipeline>(
+    `${project}/pipelines?source=push&updated_after=${since}&per_page=${PER_PAGE}`,
+    MAX_PIPELINE_PAGES,
+    session
+  );
+  return items.map((p) => ({
+    head_branch: p.ref,
+    head_sha: p.sha,
+    conclusion: p.status === "failed" ? "failure" : p.status,
+    created_at: p.created_at,
+    updated_at: p.updated_at,
+  }));
+}
+
+// MRs opened in the window. Authors outside the member list are checked for
+// a merged MR from before the window; none means they are new here.
+async function collectWindowMRs(
+  project: string,
+  since: string,
+  maintainers: Promise<Set<string>>,
+  session: GHSession
+): Promise<CollectedWindowPR[]> {
+  const [{ items }, members] = await Promise.all([
+    collectPages<GLMergeRequest>(
+      `${project}/merge_requests?state=all&created_after=${since}&order_by=created_at&sort=desc&per_page=${PER_PAGE}`,
+      MAX_WINDOW_MR_PAGES,
+      session
+    ),
+    maintainers,
+  ]);
+
+  const candidates = [
+    ...new Set(
+      items
+        .map((mr) => mr.author?.username)
+        .filter((username): username is string => !!username && !members.has(username))
+    ),
+  ].slice(0, MAX_NEWCOMER_LOOKUPS);
+
+  const newcomers = new Set<string>();
+  await Promise.all(
+    candidates.map(async (username) => {
+      const earlier = await ghFetch<GLMergeRequest[]>(
+        `${project}/merge_requests?state=merged&author_username=${encodeURIComponent(username)}&created_before=${since}&per_page=1`,
+        session
+      );
+      if (earlier.length === 0) newcomers.add(username);
+    })
+  );
+
+  return items.map((mr) => {
+    const username = mr.author?.username ?? "";
+    const firstTime = newcomers.has(username);
+    return {
+      ...toGHPR(mr),
+      state: mr.state === "opened" || mr.state === "locked" ? "open" : "closed",
+      author_association: members.has(username)
+        ? "MEMBER"
+        : firstTime
+        ? "FIRST_TIME_CONTRIBUTOR"
+        : "CONTRIBUTOR",
+      first_time: firstTime,
+    };
+  });
+}
+
+async function fetchLatestCommitDate(project: string, session: GHSession): Promise<string | null> {
+  const [latest] = await ghFetch<GLCommit[]>(`${project}/repository/commits?per_page=1`, session);
+  return latest?.authored_date ?? null;
+}
+
+// ── MAIN DATA FETCHER ────────────────────────────────────────────────────────
+export async function fetchGitLabDashboardData(
+  target: GitHubRepo,
+  options: FetchOptions = {}
+): Promise<FullDashboardData> {
+  const token = process.env.GITLAB_TOKEN;
+
+  if (!token || token === "mock") {
+    return buildMockDashboard(target, "gitlab", options.mockScenario);
+  }
+
+  const session: GHSession = { token, rateLimit: null, quotaResource: "core" };
+  const project = projectUrl(target);
+  const sinceDate = new Date(Date.now() - WINDOW_DAYS * DAY_MS);
+  const since = sinceDate.toISOString();
+
+  // Shared by issue responses and newcomer detection
+  const maintainers = fetchMaintainers(project, session);
+
+  const results = await Promise.allSettled([
+    fetchProject(project, session),
+    collectCommits(project, since, session),
+    collectMergedMRs(project, since, session),
+    collectOpenMRs(project, session),
+    collectOpenIssues(project, session),
+    collectIssueActivity(project, since, maintainers, session),
+    collectReleases(project, target, session),
+    countContributors(project, session),
+    collectPipelines(project, since, session),
+    collectWindowMRs(project, since, maintainers, session),
+  ]);
+
+  return assembleDashboard(target, results, {
+    forge: "gitlab",
+    backend: "rest",
+    sinceDate,
+    session,
+    webUrl: `${GITLAB_WEB}/${target.owner}/${target.repo}`,
+    latestCommitDate: () => fetchLatestCommitDate(project, session),
+  });
+}
+
+// ── GITLAB API TYPE STUBS ─────────────────────────────────────────────────────
+interface GLUser {
+  username: string;
+}
+interface GLProject {
+  path_with_namespace: string;
+  visibility: "public" | "internal" | "private";
+  default_branch: string | null; // null for an empty project
+  description: string | null;
+  star_count: number;
+  forks_count: number;
+  web_url: string;
+}
+interface GLCommit {
+  id: string;
+  message: string;
+  author_name: string;
+  authored_date: string;
+  web_url: string;
+}
+interface GLMergeRequest {
+  iid: number;
+  title: string;
+  state: "opened" | "closed" | "merged" | "locked";
+  draft: boolean;
+  created_at: string;
+  updated_at: string;
+  merged_at: string | null;
+  author: GLUser | null;
+  web_url: string;
+  detailed_merge_status?: string;
+}
+interface GLApprovals {
+  approved_by: { user: GLUser }[];
+}
+interface GLNote {
+  body: string;
+  system: boolean; // Generated by GitLab for an action, not typed by a person
+  created_at: string;
+  author: GLUser | null;
+}
+interface GLResourceEvent {
+  action?: "add" | "remove"; // Label events
+  state?: string;            // State events: "closed", "reopened", …
+  created_at: string;
+  user: GLUser | null;
+}
+interface GLIssue {
+  iid: number;
+  title: string;
+  state: "opened" | "closed";
+  created_at: string;
+  updated_at: string;
+  closed_at: string | null;
+  author: GLUser | null;
+  milestone: { title: string } | null;
+  labels: string[];
+  web_url: string;
+}
+interface GLMember {
+  username: string;
+  access_level: number;
+}
+interface GLRelease {
+  tag_name: string;
+  name: string | null;
+  released_at: string;
+  upcoming_release: boolean;
+  author: GLUser | null;
+  _links?: { self?: string };
+}
+interface GLTag {
+  name: string;
+  commit: { committed_date: string } | null;
+}
+interface GLContributor {
+  name: string;
+  commits: number;
+}
+interface GLPipeline {
+  sha: string;
+  ref: string;
+  status: string; // "success", "failed", "canceled", "running", …
+  created_at: string;
+  updated_at: string;
+}
@@ -0,0 +1,88 @@
+// FILE: lib/live-updates.ts
+
+/**
+ * NexusPulse Live Updates — snapshot diffs for the SSE stream
+ * ─────────────────────────────────────────────────────────
+ * app/api/live/[forge]/[...path] reloads a dashboard on an interval and
+ * sends what changed since its previous load as Server-Sent Events; the
+ * dashboard merges them in without a page reload.
+ *
+ *   commit    new on the default branch
+ *   pr        newly merged
+ *   issue           opened, reopened or otherwise updated
+ *   issue-removed   closed, or pushed out of the listed open issues
+ *   release         newly published
+ *   report          recomputed VitalityReport and the whole fresh snapshot,
+ *                   which replaces the client's (cards, charts, backlog)
+ *
+ * Reloads go through lib/dashboard-cache, so they cost no API quota until
+ * the snapshot expires or a webhook invalidates it.
+ */
+
+import type {
+  CommitActivity,
+  FullDashboardData,
+  Issue,
+  PullRequest,
+  Release,
+} from "./github-client";
+import type { VitalityReport } from "./vitality-engine";
+
+export type LiveEvent =
+  | { type: "commit"; commit: CommitActivity }
+  | { type: "pr"; pr: PullRequest }
+  | { type: "issue"; issue: Issue }
+  | { type: "issue-removed"; number: number }
+  | { type: "release"; release: Release }
+  | { type: "report"; report: VitalityReport; dashboard: FullDashboardData };
+
+export type ActivityEvent = Exclude<LiveEvent, { type: "report" }>;
+
+// Oldest first within each kind, so a client prepending each in turn ends
+// newest on top
+export function diffDashboards(
+  previous: FullDashboardData,
+  next: FullDashboardData
+): ActivityEvent[] {
+  const events: ActivityEvent[] = [];
+
+  const knownCommits = new Set(previous.recentCommits.map((c) => c.sha));
+  for (const commit of next.recentCommits) {
+    if (!knownCommits.has(commit.sha)) events.push({ type: "commit", commit });
+  }
+
+  const knownMerges = new Set(
+    previous.recentPRs.filter((pr) => pr.state === "merged").map((pr) => pr.number)
+  );
+  for (const pr of next.recentPRs) {
+    if (pr.state === "merged" && !knownMerges.has(pr.number)) events.push({ type: "pr", pr });
+  }
+
+  const knownIssues = new Map(previous.recentIssues.map((issue) => [issue.number, issue]));
+  for (const issue of next.recentIssues) {
+    const before = knownIssues.get(issue.number);
+    if (!before || before.updatedAt !== issue.updatedAt || before.state !== issue.state) {
+      events.push({ type: "issue", issue });
+    }
+  }
+
+  // The dashboard lists open issues only, so a closed one just disappears
+  const listedIssues = new Set(next.recentIssues.map((issue) => issue.number));
+  for (const issue of previous.recentIssues) {
+    if (!listedIssues.has(issue.number)) {
+      events.push({ type: "issue-removed", number: issue.number });
+    }
+  }
+
+  const knownReleases = new Set(previous.recentReleases.map((r) => r.tag));
+  for (const release of next.recentReleases) {
+    if (!knownReleases.has(release.tag)) events.push({ type: "release", release });
+  }
+
+  return events.reverse();
+}
+
+// One SSE message; the event type travels inside the JSON
+export function formatLiveEvent(event: LiveEvent): string {
+  return `data: ${JSON.stringify(event)}\n\n`;
+}
@@ -0,0 +1,580 @@
+// FILE: lib/mock-scenarios.ts
+
+/**
+ * NexusPulse Mock Scenarios
+ * ─────────────────────────────────────────────────────────
+ * Mock mode generates raw source data — commits, PRs, issues, releases,
+ * CI runs — rather than metrics, and hands it to the same assembler as
+ * live data. Cards, timeline and score are therefore always consistent.
+ *
+ * Generation is seeded from owner/repo, so a reload shows the same
+ * dashboard (timestamps stay relative to now).
+ *
+ *   dormant … supernova  land in the vitality state of the same name
+ *                        (default formula, default stale policy)
+ *   rate-limited         a stable repo whose quota ran out mid-load
+ *   empty                a repository with no history at all
+ *
+ * Pick one with ?scenario=<name> or the MOCK_SCENARIO env var; the query
+ * parameter wins. Without either, the seed picks one of the five states.
+ */
+
+import type {
+  CollectedIssue,
+  CollectedOpenPR,
+  CollectedPR,
+  CollectedRelease,
+  CollectedWindowPR,
+  GHCommit,
+  GHIssue,
+  GHWorkflowRun,
+  GitHubRepo,
+  ReviewState,
+  SourceResults,
+} from "./github-client";
+import type { RateLimitInfo } from "./github-transport";
+import { GitHubRateLimitError } from "./github-errors";
+import { resolveStalePolicy } from "./stale-policy";
+
+export type MockScenario =
+  | "dormant"
+  | "recovering"
+  | "stable"
+  | "thriving"
+  | "supernova"
+  | "rate-limited"
+  | "empty";
+
+export const MOCK_SCENARIOS: readonly MockScenario[] = [
+  "dormant",
+  "recovering",
+  "stable",
+  "thriving",
+  "supernova",
+  "rate-limited",
+  "empty",
+];
+
+export interface MockSources {
+  results: SourceResults;
+  rateLimit: RateLimitInfo | null;
+  latestCommitDate: string | null; // For windows without commits
+}
+
+type Range = [min: number, max: number];
+
+interface ScenarioProfile {
+  commits: Range;             // In the window
+  authors: Range;             // Distinct commit authors
+  idleDays: Range;            // Since the last commit, when the window has none
+  prsMerged: Range;
+  mergeHours: Range;          // Opened → merged
+  openPRs: Range;
+  stalePRShare: number;       // Of open PRs, 0–1
+  openIssues: Range;          // Open since before the window
+  staleIssueShare: number;    // Of those, 0–1
+  issuesOpened: Range;
+  issuesClosed: Range;
+  responseRate: number;       // Share of new issues a maintainer answers
+  responseHours: Range;       // Opened → first maintainer comment
+  lastReleaseDays: Range;
+  releaseIntervalDays: Range;
+  ciFailureRate: number;      // Per commit, 0–1
+  newcomerPRs: Range;
+  stars: Range;
+}
+
+// ── PROFILES ──────────────────────────────────────────────────────────────────
+// Ranges are sized so every draw scores inside its state's band
+const PROFILES: Record<Exclude<MockScenario, "rate-limited" | "empty">, ScenarioProfile> = {
+  dormant: {
+    commits: [0, 1], authors: [1, 1], idleDays: [45, 120],
+    prsMerged: [0, 0], mergeHours: [48, 400],
+    openPRs: [3, 6], stalePRShare: 1,
+    openIssues: [20, 40], staleIssueShare: 0.8,
+    issuesOpened: [4, 8], issuesClosed: [0, 1],
+    responseRate: 0.5, responseHours: [150, 300],
+    lastReleaseDays: [200, 300], releaseIntervalDays: [45, 60],
+    ciFailureRate: 0.5, newcomerPRs: [0, 0], stars: [10, 200],
+  },
+  recovering: {
+    commits: [10, 25], authors: [2, 4], idleDays: [3, 10],
+    prsMerged: [2, 6], mergeHours: [24, 200],
+    openPRs: [2, 5], stalePRShare: 0.4,
+    openIssues: [10, 20], staleIssueShare: 0.5,
+    issuesOpened: [4, 10], issuesClosed: [3, 10],
+    responseRate: 0.8, responseHours: [48, 96],
+    lastReleaseDays: [10, 25], releaseIntervalDays: [30, 45],
+    ciFailureRate: 0.25, newcomerPRs: [0, 1], stars: [50, 500],
+  },
+  stable: {
+    commits: [40, 65], authors: [4, 8], idleDays: [1, 3],
+    prsMerged: [10, 20], mergeHours: [6, 72],
+    openPRs: [3, 8], stalePRShare: 0.2,
+    openIssues: [10, 25], staleIssueShare: 0.3,
+    issuesOpened: [10, 20], issuesClosed: [10, 22],
+    responseRate: 0.9, responseHours: [12, 36],
+    lastReleaseDays: [2, 8], releaseIntervalDays: [12, 16],
+    ciFailureRate: 0.1, newcomerPRs: [1, 3], stars: [300, 3000],
+  },
+  thriving: {
+    commits: [90, 110], authors: [8, 15], idleDays: [0, 1],
+    prsMerged: [25, 40], mergeHours: [2, 36],
+    openPRs: [4, 10], stalePRShare: 0.1,
+    openIssues: [8, 20], staleIssueShare: 0.2,
+    issuesOpened: [15, 25], issuesClosed: [20, 30],
+    responseRate: 0.95, responseHours: [2, 12],
+    lastReleaseDays: [1, 5], releaseIntervalDays: [8, 10],
+    ciFailureRate: 0.05, newcomerPRs: [2, 5], stars: [2000, 15000],
+  },
+  supernova: {
+    commits: [160, 240], authors: [15, 30], idleDays: [0, 0],
+    prsMerged: [50, 80], mergeHours: [1, 24],
+    openPRs: [6, 15], stalePRShare: 0.05,
+    openIssues: [5, 15], staleIssueShare: 0.1,
+    issuesOpened: [30, 50], issuesClosed: [40, 60],
+    responseRate: 1, responseHours: [1, 6],
+    lastReleaseDays: [0, 3], releaseIntervalDays: [5, 7],
+    ciFailureRate: 0.08, newcomerPRs: [4, 8], stars: [10000, 80000],
+  },
+};
+
+const SEEDED_STATES = ["dormant", "recovering", "stable", "thriving", "supernova"] as const;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const MAX_CI_COMMITS = 100;
+const RELEASE_COUNT = 6;
+
+const AUTHORS = ["alice", "bob", "carol", "dave", "eve", "frank", "grace", "heidi"];
+const NEWCOMERS = ["ivan", "judy", "mallory", "niaj", "olivia", "peggy", "rupert", "sybil"];
+const REPORTERS = ["sam", "taylor", "riley", "jordan", "casey", "morgan", "quinn", "avery"];
+const ISSUE_LABELS = ["bug", "enhancement", "documentation", "performance", "ui", "question"];
+
+const COMMIT_MESSAGES = [
+  "feat: implement edge-optimized caching layer",
+  "fix: resolve race condition in vitality engine",
+  "docs: update API integration guide",
+  "chore: upgrade dependencies to latest stable",
+  "refactor: extract mascot state machine",
+  "perf: optimize SVG rendering pipeline",
+  "test: add integration tests for GitHub client",
+  "feat: add supernova animation sequence",
+  "fix: handle empty release lists",
+  "ci: cache node_modules between runs",
+];
+const PR_TITLES = [
+  "Add Cloudflare KV caching for GitHub data",
+  "Mobile navigation z-index fix",
+  "Vitality score normalization improvements",
+  "Dark mode refinements for MetricGrid",
+  "TypeScript strict mode compliance",
+  "WIP: GraphQL data path",
+  "Add webhook receiver",
+  "Bump framer-motion",
+];
+const ISSUE_TITLES = [
+  "Mascot flickers on Safari iOS 17",
+  "Edge runtime crashes with large repos",
+  "Add support for GitLab API",
+  "Timeline scroll performance on older devices",
+  "Accessibility: keyboard navigation in BottomNav",
+  "Feature: export vitality report as PDF",
+  "Wrong timezone in commit heatmap",
+  "Docs: explain the stale policy",
+];
+
+// ── SELECTION ─────────────────────────────────────────────────────────────────
+// ?scenario= first, then MOCK_SCENARIO. Unknown names are skipped, so a typo
+// falls back rather than fails. An unknown ?scenario= is anyone's to send, so
+// it falls back silently — as ?profile= does; a typo in MOCK_SCENARIO is
+// logged, once.
+let reportedRaw: string | null = null;
+
+export function resolveMockScenario(
+  requested: string | undefined,
+  raw: string | undefined = process.env.MOCK_SCENARIO
+): MockScenario | null {
+  if (isMockScenario(requested)) return requested;
+  if (!raw) return null;
+  if (isMockScenario(raw)) return raw;
+  if (reportedRaw !== raw) {
+    reportedRaw = raw;
+    console.warn(`[NexusPulse] Ignoring unknown MOCK_SCENARIO "${raw}"`);
+  }
+  return null;
+}
+
+function isMockScenario(name: string | undefined): name is MockScenario {
+  return name !== undefined && (MOCK_SCENARIOS as readonly string[]).includes(name);
+}
+
+// ── SEEDED RANDOMNESS ─────────────────────────────────────────────────────────
+interface Random {
+  next(): number;                        // [0, 1)
+  int(range: Range): number;             // Inclusive
+  real(range: Range): number;
+  pick<T>(items: readonly T[]): T;
+}
+
+// Mulberry32, seeded with the FNV-1a hash of the text
+function seededRandom(text: string): Random {
+  let state = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) state = Math.imul(state ^ text.charCodeAt(i), 0x01000193);
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    next,
+    int: ([min, max]) => min + Math.floor(next() * (max - min + 1)),
+    real: ([min, max]) => min + next() * (max - min),
+    pick: (items) => items[Math.floor(next() * items.length)],
+  };
+}
+
+function sha(random: Random): string {
+  return Array.from({ length: 40 }, () => Math.floor(random.next() * 16).toString(16)).join("");
+}
+
+// ── BUILDER ───────────────────────────────────────────────────────────────────
+export function buildMockSources(
+  target: GitHubRepo,
+  scenario: MockScenario | null,
+  sinceDate: Date
+): MockSources {
+  const random = seededRandom(`${target.owner}/${target.repo}`.toLowerCase());
+  const picked = scenario ?? random.pick(SEEDED_STATES);
+
+  if (picked === "empty") return emptySources(target);
+
+  if (picked === "rate-limited") {
+    return exhaustQuota(target, generate(target, PROFILES.stable, random, sinceDate), random);
+  }
+  return generate(target, PROFILES[picked], random, sinceDate);
+}
+
+function generate(
+  target: GitHubRepo,
+  profile: ScenarioProfile,
+  random: Random,
+  sinceDate: Date
+): MockSources {
+  // Whole minutes and seconds keep reloads within the same minute identical
+  const now = Math.floor(Date.now() / 60_000) * 60_000;
+  const windowMs = now - sinceDate.getTime();
+  const at = (ageMs: number) => new Date(now - Math.floor(ageMs / 1000) * 1000).toISOString();
+
+  // Commits: weekdays busier than weekends, authors on a Zipf-like spread
+  const commitCount = random.int(profile.commits);
+  const authors = Array.from(
+    { length: Math.min(random.int(profile.authors), Math.max(commitCount, 1)) },
+    (_, i) => AUTHORS[i % AUTHORS.length] + (i >= AUTHORS.length ? `-${i}` : "")
+  );
+  const weights = authors.map((_, i) => 1 / (i + 1));
+  const weightSum = weights.reduce((sum, w) => sum + w, 0);
+  const authorFor = (i: number) => {
+    if (i < authors.length) return authors[i]; // Everyone commits at least once
+    let roll = random.next() * weightSum;
+    return authors.find((_, j) => (roll -= weights[j]) < 0) ?? authors[0];
+  };
+
+  const commits: GHCommit[] = Array.from({ length: commitCount }, (_, i) => {
+    let ageMs = random.next() * windowMs;
+    const weekday = new Date(now - ageMs).getUTCDay();
+    if ((weekday === 0 || weekday === 6) && random.next() < 0.7) ageMs = random.next() * windowMs;
+    const author = authorFor(i);
+    return {
+      sha: sha(random),
+      commit: { message: random.pick(COMMIT_MESSAGES), author: { name: author, date: at(ageMs) } },
+      author: { login: author },
+      html_url: "#",
+    };
+  }).sort((a, b) => b.commit.author!.date.localeCompare(a.commit.author!.date));
+
+  const maintainers = new Set(authors.slice(0, 3));
+  const contributorFor = () => random.pick(authors);
+
+  // Merged PRs inside the window, with a long tail on time-to-merge
+  const merged: CollectedPR[] = Array.from({ length: random.int(profile.prsMerged) }, () => {
+    const mergedAge = random.next() * windowMs;
+    const mergeMs = random.real(profile.mergeHours) * HOUR_MS * (random.next() < 0.1 ? 4 : 1);
+    return {
+      number: 0,
+      title: random.pick(PR_TITLES),
+      created_at: at(mergedAge + mergeMs),
+      updated_at: at(mergedAge),
+      merged_at: at(mergedAge),
+      user: { login: contributorFor() },
+      html_url: "#",
+      first_review_at: at(mergedAge + mergeMs * (1 - random.real([0.2, 0.6]))),
+    };
+  });
+
+  // Open PRs — the stale share has gone quiet for over two weeks
+  const openCount = random.int(profile.openPRs);
+  const staleOpen = Math.round(openCount * profile.stalePRShare);
+  const open: CollectedOpenPR[] = Array.from({ length: openCount }, (_, i) => {
+    const stale = i < staleOpen;
+    const createdAge = (stale ? random.real([20, 90]) : random.real([0, 20])) * DAY_MS;
+    const updatedAge = stale
+      ? random.real([15, Math.max(15, createdAge / DAY_MS)]) * DAY_MS
+      : random.real([0, Math.min(10, createdAge / DAY_MS)]) * DAY_MS;
+    const draft = random.next() < 0.2;
+    return {
+      number: 0,
+      title: random.pick(PR_TITLES),
+      draft,
+      created_at: at(createdAge),
+      updated_at: at(updatedAge),
+      merged_at: null,
+      user: { login: contributorFor() },
+      html_url: "#",
+      review_state: draft
+        ? "unknown"
+        : random.pick<ReviewState>(["awaiting-review", "changes-requested", "approved"]),
+    };
+  });
+
+  // Newcomers take over some window PRs; the abandoned ones were closed unmerged
+  const newcomerCount = random.int(profile.newcomerPRs);
+  const newcomerLogins = new Set<string>();
+  const abandoned: CollectedWindowPR[] = [];
+  for (let i = 0; i < newcomerCount; i++) {
+    const login = NEWCOMERS[i % NEWCOMERS.length];
+    const roll = random.next();
+    const takeover = roll < 0.5 ? merged : roll < 0.75 ? open : null;
+    const pr = takeover?.find(
+      (p) => !newcomerLogins.has(p.user!.login) && !maintainers.has(p.user!.login) && p.created_at >= sinceDate.toISOString()
+    );
+    newcomerLogins.add(login);
+    if (pr) {
+      pr.user = { login };
+      continue;
+    }
+    const createdAge = random.next() * windowMs;
+    abandoned.push({
+      number: 0,
+      title: random.pick(PR_TITLES),
+      created_at: at(createdAge),
+      updated_at: at(createdAge / 2),
+      merged_at: null,
+      user: { login },
+      html_url: "#",
+      state: "closed",
+      author_association: "FIRST_TIME_CONTRIBUTOR",
+      first_time: true,
+    });
+  }
+
+  // Issues: older open ones, part of them idle past the stale threshold, plus
+  // the window's new issues and the older ones closed during it
+  const policy = resolveStalePolicy();
+  const labels = ISSUE_LABELS.filter(
+    (l) => !(l in policy.labelDays) && !policy.exemptLabels.includes(l)
+  );
+  const issue = (createdAge: number, updatedAge: number, closedAge: number | null): CollectedIssue => ({
+    number: 0,
+    title: random.pick(ISSUE_TITLES),
+    state: closedAge === null ? "open" : "closed",
+    created_at: at(createdAge),
+    updated_at: at(updatedAge),
+    closed_at: closedAge === null ? null : at(closedAge),
+    user: { login: random.pick(REPORTERS) },
+    author_association: random.next() < 0.25 ? "FIRST_TIME_CONTRIBUTOR" : "NONE",
+    milestone: null,
+    html_url: "#",
+    labels: labels.length > 0 ? [{ name: random.pick(labels) }] : [],
+    comments: null,
+    events: null,
+  });
+
+  const olderCount = random.int(profile.openIssues);
+  const staleIssues = Math.round(olderCount * profile.staleIssueShare);
+  const freshWithin = Math.min(policy.defaultDays, 20);
+  const olderOpen = Array.from({ length: olderCount }, (_, i) =>
+    i < staleIssues
+      ? issue(random.real([60, 400]) * DAY_MS, random.real([policy.defaultDays + 1, policy.defaultDays + 90]) * DAY_MS, null)
+      : issue(random.real([40, 300]) * DAY_MS, random.real([0, freshWithin - 1]) * DAY_MS, null)
+  );
+
+  const openedCount = random.int(profile.issuesOpened);
+  const closedCount = random.int(profile.issuesClosed);
+  const closedOfOpened = Math.min(closedCount, Math.round(openedCount * 0.6));
+  const opened = Array.from({ length: openedCount }, (_, i) => {
+    const createdAge = random.next() * windowMs;
+    const responded = random.next() < profile.responseRate;
+    const responseAge = createdAge - random.real(profile.responseHours) * HOUR_MS;
+    const answered = responded && responseAge > 0;
+    const closedAge = i < closedOfOpened ? random.real([0, answered ? responseAge : createdAge]) : null;
+    const created = issue(createdAge, closedAge ?? (answered ? responseAge : createdAge), closedAge);
+    created.comments = answered
+      ? [{ created_at: at(responseAge), author_association: "MEMBER", user: { login: random.pick([...maintainers]) } }]
+      : [];
+    created.events = [];
+    return created;
+  });
+  const closedOlder = Array.from({ length: closedCount - closedOfOpened }, () => {
+    const closedAge = random.next() * windowMs;
+    return issue(windowMs + random.real([1, 200]) * DAY_MS, closedAge, closedAge);
+  });
+
+  // One number space for PRs and issues, in order of creation
+  const numbered = [...merged, ...open, ...abandoned, ...olderOpen, ...opened, ...closedOlder];
+  let number = random.int([40, 900]);
+  for (const item of [...numbered].sort((a, b) => a.created_at.localeCompare(b.created_at))) {
+    item.number = number++;
+  }
+
+  const since = sinceDate.toISOString();
+  const windowPRs: CollectedWindowPR[] = [
+    ...merged.map((pr) => ({ ...pr, state: "closed" })),
+    ...open.map((pr) => ({ ...pr, state: "open" })),
+  ]
+    .filter((pr) => pr.created_at >= since)
+    .map((pr) => {
+      const login = pr.user?.login ?? "";
+      const firstTime = newcomerLogins.has(login);
+      return {
+        number: pr.number,
+        title: pr.title,
+        created_at: pr.created_at,
+        updated_at: pr.updated_at,
+        merged_at: pr.merged_at,
+        user: pr.user,
+        html_url: pr.html_url,
+        state: pr.state,
+        author_association: firstTime
+          ? "FIRST_TIME_CONTRIBUTOR"
+          : maintainers.has(login)
+          ? "MEMBER"
+          : "CONTRIBUTOR",
+        first_time: firstTime,
+      };
+    })
+    .concat(abandoned);
+
+  const openIssues: GHIssue[] = [...olderOpen, ...opened.filter((i) => i.state === "open")]
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+  // Releases on a steady cadence back from the newest
+  const interval = random.real(profile.releaseIntervalDays);
+  let releaseAge = random.real(profile.lastReleaseDays);
+  const minor = random.int([4, 12]);
+  const releases: CollectedRelease[] = Array.from({ length: RELEASE_COUNT }, (_, i) => {
+    const release: CollectedRelease = {
+      tag_name: `v1.${minor - i}.0`,
+      name: `v1.${minor - i}.0`,
+      draft: false,
+      prerelease: false,
+      published_at: at(releaseAge * DAY_MS),
+      html_url: "#",
+      author: { login: authors[i % authors.length] },
+      from_tag: false,
+    };
+    releaseAge += interval * random.real([0.8, 1.2]);
+    return release;
+  });
+
+  // One CI verdict per recent commit on the default branch
+  const runs: GHWorkflowRun[] = commits.slice(0, MAX_CI_COMMITS).map((c) => {
+    const pushed = new Date(c.commit.author!.date).getTime();
+    return {
+      head_branch: "main",
+      head_sha: c.sha,
+      conclusion: random.next() < profile.ciFailureRate ? "failure" : "success",
+      created_at: new Date(pushed + 60_000).toISOString(),
+      updated_at: new Date(pushed + random.int([5, 20]) * 60_000).toISOString(),
+    };
+  });
+
+  const stars = random.int(profile.stars);
+  return {
+    results: [
+      fulfilled({
+        full_name: `${target.owner}/${target.repo}`,
+        private: false,
+        default_branch: "main",
+        description: null,
+        stargazers_count: stars,
+        forks_count: Math.round(stars * random.real([0.05, 0.2])),
+        html_url: "#",
+      }),
+      fulfilled({ commits, truncated: false }),
+      fulfilled(merged.sort((a, b) => b.merged_at!.localeCompare(a.merged_at!))),
+      fulfilled(open),
+      fulfilled(openIssues),
+      fulfilled([...opened, ...closedOlder]),
+      fulfilled(releases),
+      fulfilled(authors.length + random.int([0, Math.round(stars / 40)])),
+      fulfilled(runs),
+      fulfilled(windowPRs),
+    ],
+    rateLimit: null,
+    latestCommitDate: at(random.real(profile.idleDays) * DAY_MS),
+  };
+}
+
+// The repo and commits loaded before the quota ran dry; everything after
+// failed the way a live load does
+function exhaustQuota(target: GitHubRepo, sources: MockSources, random: Random): MockSources {
+  const resetAt = new Date(Date.now() + random.int([10, 50]) * 60_000).toISOString();
+  const base = `/repos/${target.owner}/${target.repo}`;
+  const limited = (path: string) => rejected(new GitHubRateLimitError(`${base}/${path}`, 403, resetAt));
+  const [repo, commits, , , , , , contributors] = sources.results;
+
+  return {
+    results: [
+      repo,
+      commits,
+      limited("pulls?state=closed"),
+      limited("pulls?state=open"),
+      limited("issues?state=open"),
+      limited("issues?state=all"),
+      limited("releases"),
+      contributors,
+      limited("actions/runs"),
+      limited("pulls?state=all"),
+    ],
+    rateLimit: { limit: 5000, remaining: 0, used: 5000, resetAt, resource: "core" },
+    latestCommitDate: sources.latestCommitDate,
+  };
+}
+
+function emptySources(target: GitHubRepo): MockSources {
+  return {
+    results: [
+      fulfilled({
+        full_name: `${target.owner}/${target.repo}`,
+        private: false,
+        default_branch: "main",
+        description: null,
+        stargazers_count: 0,
+        forks_count: 0,
+        html_url: "#",
+      }),
+      fulfilled({ commits: [], truncated: false }),
+      fulfilled([]),
+      fulfilled([]),
+      fulfilled([]),
+      fulfilled([]),
+      fulfilled([]),
+      fulfilled(0),
+      fulfilled([]),
+      fulfilled([]),
+    ],
+    rateLimit: null,
+    latestCommitDate: null,
+  };
+}
+
+function fulfilled<T>(value: T): PromiseSettledResult<T> {
+  return { status: "fulfilled", value };
+}
+
+function rejected(reason: unknown): PromiseRejectedResult {
+  return { status: "rejected", reason };
+}
@@ -0,0 +1,179 @@
+// FILE: lib/scoring-profiles.ts
+
+/**
+ * NexusPulse Scoring Profiles
+ * ─────────────────────────────────────────────────────────
+ * A profile sets the vitality formula's weights, the score shown as 100%
+ * and the state thresholds. Healthy looks different per kind of project:
+ *
+ *   default       the original calibration for an open-source repo
+ *   library       review, triage and regular releases over commit volume
+ *   application   commit throughput; deploys matter more than tagged releases
+ *   docs-site     small merged edits; releases are not scored
+ *
+ * scoring-profiles.json at the project root picks a profile per dashboard,
+ * keyed by its path, and may define profiles of its own:
+ *
+ *   {
+ *     "defaultProfile": "library",
+ *     "repos": { "vercel/next.js": "application", "gitlab/group/handbook": "docs-site" },
+ *     "profiles": { "strict": { "extends": "library", "maxExpectedScore": 150 } }
+ *   }
+ *
+ * A profile from the file starts from "extends" (default: the default
+ * profile); weights and thresholds merge field by field. ?profile=<name>
+ * on a dashboard wins over the file.
+ */
+
+import type { GitHubRepo } from "./github-client";
+import type { ForgeKind } from "./forge-provider";
+import type { VitalityState } from "./vitality-engine";
+import scoringConfig from "../scoring-profiles.json";
+
+export interface ScoringWeights {
+  commits: number;
+  prsMerged: number;
+  staleIssues: number;
+  stalePRs: number;
+  backlogGrowth: number; // Per net new issue, inside Responsiveness
+  releases: number;      // Multiplies the release term (0 = not scored)
+}
+
+// Lowest score of each state; anything below "recovering" is dormant
+export type StateThresholds = Record<Exclude<VitalityState, "dormant">, number>;
+
+export interface ScoringProfile {
+  name: string;
+  label: string;
+  description: string;
+  weights: ScoringWeights;
+  maxExpectedScore: number; // Score shown as 100%
+  thresholds: StateThresholds;
+}
+
+interface ProfileOverrides {
+  extends?: string;
+  label?: string;
+  description?: string;
+  weights?: Partial<ScoringWeights>;
+  maxExpectedScore?: number;
+  thresholds?: Partial<StateThresholds>;
+}
+
+interface ScoringConfigFile {
+  defaultProfile?: string;
+  repos?: Record<string, string>; // Dashboard path → profile name
+  profiles?: Record<string, ProfileOverrides>;
+}
+
+// ── BUILT-IN PROFILES ─────────────────────────────────────────────────────────
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  name: "default",
+  label: "Default",
+  description: "Calibrated for a healthy open-source repository.",
+  weights: { commits: 0.5, prsMerged: 0.3, staleIssues: 0.2, stalePRs: 0.3, backlogGrowth: 0.2, releases: 1 },
+  maxExpectedScore: 120,
+  thresholds: { recovering: 0, stable: 25, thriving: 60, supernova: 90 },
+};
+
+const BUILT_IN_PROFILES: ScoringProfile[] = [
+  DEFAULT_SCORING_PROFILE,
+  {
+    name: "library",
+    label: "Library",
+    description: "Reviewed merges, triaged issues and regular releases count most.",
+    weights: { commits: 0.4, prsMerged: 0.4, staleIssues: 0.3, stalePRs: 0.4, backlogGrowth: 0.3, releases: 1.5 },
+    maxExpectedScore: 100,
+    thresholds: { recovering: 0, stable: 20, thriving: 50, supernova: 80 },
+  },
+  {
+    name: "application",
+    label: "Application",
+    description: "Ships continuously: commit throughput counts most, tagged releases little.",
+    weights: { commits: 0.6, prsMerged: 0.3, staleIssues: 0.15, stalePRs: 0.3, backlogGrowth: 0.2, releases: 0.5 },
+    maxExpectedScore: 150,
+    thresholds: { recovering: 0, stable: 30, thriving: 75, supernova: 110 },
+  },
+  {
+    name: "docs-site",
+    label: "Docs site",
+    description: "Small merged edits; releases and the issue backlog barely matter.",
+    weights: { commits: 0.5, prsMerged: 0.4, staleIssues: 0.1, stalePRs: 0.2, backlogGrowth: 0.1, releases: 0 },
+    maxExpectedScore: 60,
+    thresholds: { recovering: 0, stable: 10, thriving: 30, supernova: 45 },
+  },
+];
+
+// ── CONFIG FILE ───────────────────────────────────────────────────────────────
+const CONFIG = scoringConfig as ScoringConfigFile;
+
+function extendProfile(base: ScoringProfile, name: string, overrides: ProfileOverrides): ScoringProfile {
+  return {
+    name,
+    label: overrides.label ?? name,
+    description: overrides.description ?? base.description,
+    weights: { ...base.weights, ...overrides.weights },
+    maxExpectedScore: overrides.maxExpectedScore ?? base.maxExpectedScore,
+    thresholds: { ...base.thresholds, ...overrides.thresholds },
+  };
+}
+
+// Built-ins first, so file profiles can extend them (and each other, in order)
+function buildProfiles(): Map<string, ScoringProfile> {
+  const profiles = new Map(BUILT_IN_PROFILES.map((p) => [p.name, p]));
+  for (const [name, overrides] of Object.entries(CONFIG.profiles ?? {})) {
+    const base = profiles.get(overrides.extends ?? DEFAULT_SCORING_PROFILE.name);
+    if (!base) {
+      console.error(`[NexusPulse] Scoring profile "${name}" extends unknown "${overrides.extends}"`);
+      continue;
+    }
+    profiles.set(name, extendProfile(base, name, overrides));
+  }
+  return profiles;
+}
+
+export const SCORING_PROFILES: ReadonlyMap<string, ScoringProfile> = buildProfiles();
+
+const REPO_PROFILES = new Map(
+  Object.entries(CONFIG.repos ?? {}).map(([path, name]) => [path.toLowerCase(), name])
+);
+
+// The dashboard's URL path without the leading slash, as used in "repos"
+export function scoringProfileKey(forge: ForgeKind, target: GitHubRepo): string {
+  const path =
+    forge === "github"
+      ? `${target.owner}/${target.repo}`
+      : forge === "gitea"
+      ? `gitea/${target.host}/${target.owner}/${target.repo}`
+      : forge === "local"
+      ? `local/${target.repo}`
+      : `${forge}/${target.owner}/${target.repo}`;
+  return path.toLowerCase();
+}
+
+// Names from the file that matched no profile, logged once each
+const reportedNames = new Set<string>();
+
+// ?profile= first, then the repo's entry, then the file's default. An
+// unknown ?profile= is anyone's to send, so it falls back silently; a typo
+// in the file is logged, once per name.
+export function resolveScoringProfile(
+  forge: ForgeKind,
+  target: GitHubRepo,
+  requested: string | undefined
+): ScoringProfile {
+  const requestedProfile = requested && SCORING_PROFILES.get(requested);
+  if (requestedProfile) return requestedProfile;
+
+  const configured = [REPO_PROFILES.get(scoringProfileKey(forge, target)), CONFIG.defaultProfile];
+  for (const name of configured) {
+    if (!name) continue;
+    const profile = SCORING_PROFILES.get(name);
+    if (profile) return profile;
+    if (!reportedNames.has(name)) {
+      reportedNames.add(name);
+      console.warn(`[NexusPulse] Ignoring unknown scoring profile "${name}" in scoring-profiles.json`);
+    }
+  }
+  return DEFAULT_SCORING_PROFILE;
+}
@@ -0,0 +1,137 @@
+// FILE: lib/stale-policy.ts
+
+/**
+ * NexusPulse Stale Policy
+ * ─────────────────────────────────────────────────────────
+ * Decides when an open issue counts as stale. Issues are stale once they
+ * go quiet for longer than their threshold:
+ *
+ *   - exempt labels / milestones never go stale (pinned, roadmap, …)
+ *   - a labelled issue uses the most lenient matching label threshold
+ *   - everything else uses the default threshold
+ *
+ * Override the defaults with a JSON STALE_POLICY env var, e.g.
+ *   {"defaultDays":45,"labelDays":{"needs-info":14},"exemptMilestones":["Backlog"]}
+ * Fields that are left out, or fail validation, keep their default.
+ */
+
+export interface StalePolicy {
+  defaultDays: number;
+  labelDays: Record<string, number>; // Label → threshold in days
+  exemptLabels: string[];
+  exemptMilestones: string[];
+}
+
+export interface StaleVerdict {
+  isStale: boolean;
+  reason: string | null; // Why the issue is stale; null when it isn't
+}
+
+// ── DEFAULT POLICY ────────────────────────────────────────────────────────────
+export const DEFAULT_STALE_POLICY: StalePolicy = {
+  defaultDays: 30,
+  labelDays: { "needs-info": 14, "waiting-for-reply": 14 },
+  exemptLabels: ["pinned", "roadmap", "long-term"],
+  exemptMilestones: [],
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Each field's accepted shape; anything else keeps the default
+const FIELD_CHECKS: { [K in keyof StalePolicy]: (value: unknown) => boolean } = {
+  defaultDays: isDayCount,
+  labelDays: (value) => isPlainObject(value) && Object.values(value).every(isDayCount),
+  exemptLabels: isStringList,
+  exemptMilestones: isStringList,
+};
+
+// STALE_POLICY values already complained about, so each is logged once
+const reportedPolicies = new Set<string>();
+
+// Invalid JSON falls back to the defaults; an invalid or unknown field
+// falls back (or is dropped) on its own. Either is logged once.
+export function resolveStalePolicy(raw: string | undefined = process.env.STALE_POLICY): StalePolicy {
+  if (!raw) return DEFAULT_STALE_POLICY;
+
+  let overrides: unknown;
+  try {
+    overrides = JSON.parse(raw);
+  } catch (error) {
+    if (reportOnce(raw)) console.error("[NexusPulse] Ignoring invalid STALE_POLICY:", error);
+    return DEFAULT_STALE_POLICY;
+  }
+  if (!isPlainObject(overrides)) {
+    if (reportOnce(raw)) console.error("[NexusPulse] Ignoring STALE_POLICY: expected a JSON object");
+    return DEFAULT_STALE_POLICY;
+  }
+
+  const policy: Record<string, unknown> = { ...DEFAULT_STALE_POLICY };
+  const ignored: string[] = [];
+  for (const [field, value] of Object.entries(overrides)) {
+    const known = Object.prototype.hasOwnProperty.call(FIELD_CHECKS, field);
+    if (known && FIELD_CHECKS[field as keyof StalePolicy](value)) policy[field] = value;
+    else ignored.push(field);
+  }
+  if (ignored.length > 0 && reportOnce(raw)) {
+    console.warn(`[NexusPulse] Ignoring invalid or unknown STALE_POLICY fields: ${ignored.join(", ")}`);
+  }
+  return policy as unknown as StalePolicy;
+}
+
+function reportOnce(raw: string): boolean {
+  if (reportedPolicies.has(raw)) return false;
+  reportedPolicies.add(raw);
+  return true;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isDayCount(value: unknown): boolean {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
+
+function isStringList(value: unknown): boolean {
+  return Array.isArray(value) && value.every((v) => typeof v === "string");
+}
+
+// ── CLASSIFICATION ────────────────────────────────────────────────────────────
+export function classifyStaleness(
+  issue: { updatedAt: string; labels: string[]; milestone: string | null },
+  policy: StalePolicy,
+  now: number = Date.now()
+): StaleVerdict {
+  const labels = issue.labels.map((l) => l.toLowerCase());
+  const exempt = new Set(policy.exemptLabels.map((l) => l.toLowerCase()));
+  if (labels.some((l) => exempt.has(l))) return { isStale: false, reason: null };
+
+  const milestone = issue.milestone?.toLowerCase();
+  if (milestone && policy.exemptMilestones.some((m) => m.toLowerCase() === milestone)) {
+    return { isStale: false, reason: null };
+  }
+
+  const rule = labelRule(labels, policy);
+  const thresholdDays = rule?.days ?? policy.defaultDays;
+  const idleDays = Math.floor((now - new Date(issue.updatedAt).getTime()) / DAY_MS);
+  if (idleDays <= thresholdDays) return { isStale: false, reason: null };
+
+  return {
+    isStale: true,
+    reason: rule
+      ? `Idle ${idleDays}d — over the ${thresholdDays}d limit for "${rule.label}"`
+      : `Idle ${idleDays}d — over the ${thresholdDays}d default`,
+  };
+}
+
+function labelRule(
+  labels: string[],
+  policy: StalePolicy
+): { label: string; days: number } | null {
+  let match: { label: string; days: number } | null = null;
+  for (const [label, days] of Object.entries(policy.labelDays)) {
+    if (!labels.includes(label.toLowerCase())) continue;
+    if (!match || days > match.days) match = { label, days };
+  }
+  return match;
+}
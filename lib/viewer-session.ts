@@ -0,0 +1,120 @@
+// FILE: lib/viewer-session.ts
+
+/**
+ * NexusPulse Viewer Sessions — GitHub OAuth, encrypted cookies
+ * ─────────────────────────────────────────────────────────
+ * A viewer who signs in with GitHub (app/api/auth/*) loads dashboards with
+ * their own token: private repos they can see, and their own quota instead
+ * of the shared GITHUB_TOKEN. The token lives only in an AES-GCM encrypted,
+ * httpOnly cookie; the key is derived from SESSION_SECRET, so rotating the
+ * secret signs everyone out.
+ *
+ *   GITHUB_OAUTH_CLIENT_ID / _SECRET   OAuth App credentials
+ *   GITHUB_OAUTH_SCOPES                requested scopes (default "repo")
+ *   SESSION_SECRET                     cookie encryption secret
+ *
+ * Sign-in is offered only when all three of client id, client secret and
+ * session secret are set.
+ */
+
+import { cookies } from "next/headers";
+
+export const SESSION_COOKIE = "np_session";
+export const OAUTH_STATE_COOKIE = "np_oauth_state";
+export const SESSION_MAX_AGE_SECONDS = 30 * 24 * 60 * 60;
+export const OAUTH_STATE_MAX_AGE_SECONDS = 10 * 60;
+
+// "repo" is the only classic scope that can read private repositories
+export const OAUTH_SCOPES = process.env.GITHUB_OAUTH_SCOPES ?? "repo";
+
+const IV_BYTES = 12; // AES-GCM nonce
+
+export interface ViewerSession {
+  token: string;
+  login: string;
+  scopes: string[];  // As granted, which may be fewer than requested
+  signedInAt: string;
+}
+
+// What the browser may see — never the token
+export type Viewer = Omit<ViewerSession, "token">;
+
+export function toViewer({ token: _token, ...viewer }: ViewerSession): Viewer {
+  return viewer;
+}
+
+export function oauthConfigured(): boolean {
+  return Boolean(
+    process.env.GITHUB_OAUTH_CLIENT_ID &&
+      process.env.GITHUB_OAUTH_CLIENT_SECRET &&
+      process.env.SESSION_SECRET
+  );
+}
+
+// Relative paths only, so the flow cannot bounce viewers to another site
+export function safeReturnTo(value: string | null | undefined): string {
+  return value && value.startsWith("/") && !value.startsWith("//") && !value.includes("\\")
+    ? value
+    : "/";
+}
+
+export const cookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === "production",
+  sameSite: "lax" as const,
+  path: "/",
+};
+
+// ── ENCRYPTION ────────────────────────────────────────────────────────────────
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+async function sessionKey(): Promise<CryptoKey> {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) throw new Error("SESSION_SECRET is not set");
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(secret));
+  return crypto.subtle.importKey("raw", digest, "AES-GCM", false, ["encrypt", "decrypt"]);
+}
+
+// base64url(iv ‖ ciphertext); GCM's tag makes any edit fail to open
+export async function sealSession(session: ViewerSession): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const plaintext = new TextEncoder().encode(JSON.stringify(session));
+  const ciphertext = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, await sessionKey(), plaintext);
+
+  const sealed = new Uint8Array(IV_BYTES + ciphertext.byteLength);
+  sealed.set(iv);
+  sealed.set(new Uint8Array(ciphertext), IV_BYTES);
+  return toBase64Url(sealed);
+}
+
+// null for anything that does not decrypt: tampered, truncated, or sealed
+// under a previous secret
+export async function openSession(value: string): Promise<ViewerSession | null> {
+  try {
+    const sealed = fromBase64Url(value);
+    const plaintext = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: sealed.slice(0, IV_BYTES) },
+      await sessionKey(),
+      sealed.slice(IV_BYTES)
+    );
+    return JSON.parse(new TextDecoder().decode(plaintext)) as ViewerSession;
+  } catch {
+    return null;
+  }
+}
+
+// ── REQUEST HELPERS ───────────────────────────────────────────────────────────
+export async function readViewerSession(): Promise<ViewerSession | null> {
+  if (!oauthConfigured()) return null;
+  const value = cookies().get(SESSION_COOKIE)?.value;
+  return value ? openSession(value) : null;
+}
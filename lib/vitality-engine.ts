@@ -6,12 +6,32 @@
  * Computes a repository's "life force" from raw GitHub metrics.
  * All math runs at the Edge — no server required.
  *
- * Vitality Formula:
- *   V = (Commits × 0.5) + (PR_Merged × 0.3) - (Stale_Issues × 0.2)
+ * Vitality Formula (default scoring profile, see lib/scoring-profiles):
+ *   V = (Commits × 0.5) + (PR_Merged × 0.3)
+ *       - (Stale_Issues × 0.2) - (Stale_Open_PRs × 0.3)
+ *       + Responsiveness + Releases
  *
- * State thresholds are calibrated for a healthy open-source repo.
+ *   Responsiveness = Response_Speed - (Issue_Backlog_Growth × 0.2)
+ *   Response_Speed slides from +10 (median first maintainer response within
+ *   a day) to -10 (a week or more), and is 0 until an issue gets an answer.
+ *
+ *   Releases = (min(Releases_In_Window, 5) × 2) - Overdue
+ *   Overdue is 5 once the last release is more than twice the usual interval
+ *   ago (180 days when there is no interval yet). Never released = 0.
+ *
+ *   Optional, with VITALITY_COMMUNITY_TERM=true:
+ *   + Community = (New_Contributors × 2) - (Abandoned_Newcomer_PRs × 0.5)
+ *
+ * Weights, the score shown as 100% and the state thresholds come from the
+ * scoring profile; the default one is calibrated for a healthy open-source repo.
+ * Contributor concentration is reported as a sustainability warning
+ * and does not move the score.
  */
 
+import type { DataSource, SourceStatusMap } from "./github-client";
+import { DEFAULT_SCORING_PROFILE, type ScoringProfile } from "./scoring-profiles";
+
+// Ranges are the default profile's
 export type VitalityState =
   | "dormant"     // V < 0   — the repo is in decay
   | "recovering"  // 0–25    — life signs present
@@ -22,12 +42,38 @@ export type VitalityState =
 export interface RawMetrics {
   commits: number;
   prsMerged: number;
+  prMedianMergeHours: number | null;        // Opened → merged, PRs merged in window
+  prP90MergeHours: number | null;
+  prMedianFirstReviewHours: number | null;  // Opened → first non-author review
+  prP90FirstReviewHours: number | null;
+  openPRs: number;
+  stalePRs: number;                         // Open PRs with no update in 14 days
   staleIssues: number;
   totalIssues: number;
+  issuesOpened: number;                     // Issues created in the window
+  issuesClosed: number;                     // Issues closed in the window
+  issueBacklogGrowth: number;               // Opened − closed (negative = shrinking)
+  issueMedianResponseHours: number | null;  // Opened → first maintainer response
+  issueP90ResponseHours: number | null;
+  daysSinceLastRelease: number | null;      // null when nothing was ever released
+  releasesInWindow: number;
+  releaseMedianIntervalDays: number | null; // Between consecutive releases
+  ciSuccessRate: number | null;             // 0–100 over default-branch Actions runs
+  ciMeanRecoveryHours: number | null;       // Red build → next green build
+  ciBrokenStreak: number;                   // Red commits at the branch tip (0 = green)
+  newcomerPRsOpened: number;                // PRs opened in the window by first-time contributors
+  newcomerPRsMerged: number;
+  newcomerPRsAbandoned: number;             // Closed without merging
+  newContributors: number;                  // Authors whose first merged PR landed in the window
   totalStars: number;
   totalForks: number;
-  contributors: number;
-  lastCommitDate: string;
+  contributors: number;         // Distinct commit authors in the scoring window
+  allTimeContributors: number;  // Everyone GitHub lists as a contributor
+  busFactor: number;             // Fewest window authors covering 50% of commits
+  authorGini: number | null;     // 0 = evenly spread … 1 = single author
+  topAuthorShare: number | null; // Most active author's share of commits, 0–100
+  lastCommitDate: string | null; // null when there is none, or it could not be looked up
+  neverCommitted: boolean;       // Commits loaded and the repo has none at all
 }
 
 export interface VitalityReport {
@@ -38,10 +84,55 @@ export interface VitalityReport {
     commitContribution: number;
     prContribution: number;
     stalePenalty: number;
+    stalePrPenalty: number;
+    responsiveness: number;   // Can be negative
+    releaseContribution: number; // Can be negative
+    communityContribution: number | null; // null when the community term is off
   };
   stateConfig: StateConfig;
+  profile: ScoringProfile;  // Formula the score was computed with
+  provisional: ScoreTerm[]; // Terms left at 0 because their source failed (empty = complete)
   trend: "rising" | "falling" | "flat";
   healthPercentage: number; // 0–100 for the progress arc
+  flow: FlowReport;
+  sustainability: SustainabilityReport;
+}
+
+// Flow (PR efficiency) — reported alongside the score, not folded into it
+export interface FlowReport {
+  medianMergeHours: number | null;
+  p90MergeHours: number | null;
+  medianFirstReviewHours: number | null;
+  p90FirstReviewHours: number | null;
+  rating: "fast" | "steady" | "slow" | "unknown";
+}
+
+export type ScoreTerm = keyof VitalityReport["breakdown"];
+
+export interface VitalityOptions {
+  communityTerm?: boolean; // Score newcomer activity (off by default)
+  profile?: ScoringProfile; // Default: DEFAULT_SCORING_PROFILE
+  sources?: SourceStatusMap; // Failed sources make their terms provisional
+}
+
+// Where each term's metrics come from
+const TERM_SOURCES: Record<ScoreTerm, DataSource> = {
+  commitContribution: "commits",
+  prContribution: "prs",
+  stalePenalty: "issues",
+  stalePrPenalty: "backlog",
+  responsiveness: "issueFlow",
+  releaseContribution: "releases",
+  communityContribution: "newcomers",
+};
+
+// Contributor concentration — a warning, not a score term
+export interface SustainabilityReport {
+  busFactor: number;
+  gini: number | null;
+  topAuthorShare: number | null;
+  risk: "low" | "moderate" | "high" | "unknown";
+  warning: string | null;
 }
 
 export interface StateConfig {
@@ -111,18 +202,53 @@ export const STATE_CONFIGS: Record<VitalityState, StateConfig> = {
 };
 
 // ── CORE VITALITY FORMULA ──────────────────────────────────────────────────────
-export function computeVitality(metrics: RawMetrics): VitalityReport {
-  const commitContribution = metrics.commits * 0.5;
-  const prContribution = metrics.prsMerged * 0.3;
-  const stalePenalty = metrics.staleIssues * 0.2;
+export function computeVitality(
+  metrics: RawMetrics,
+  options: VitalityOptions = {}
+): VitalityReport {
+  const profile = options.profile ?? DEFAULT_SCORING_PROFILE;
+  const { weights } = profile;
+
+  const commitContribution = metrics.commits * weights.commits;
+  const prContribution = metrics.prsMerged * weights.prsMerged;
+  const stalePenalty = metrics.staleIssues * weights.staleIssues;
+  // An abandoned PR is someone's work rotting in review — weighted above a stale issue
+  const stalePrPenalty = metrics.stalePRs * weights.stalePRs;
+  const responsiveness =
+    responseSpeed(metrics.issueMedianResponseHours) -
+    metrics.issueBacklogGrowth * weights.backlogGrowth;
+
+  const releaseContribution = releaseTerm(metrics) * weights.releases;
+  const communityContribution = options.communityTerm
+    ? metrics.newContributors * 2 - metrics.newcomerPRsAbandoned * 0.5
+    : null;
 
-  const score = commitContribution + prContribution - stalePenalty;
+  // A failed source reads as zeros; the score says which terms that affects.
+  // A source the forge does not offer is a permanent zero, not a gap.
+  const provisional = (Object.keys(TERM_SOURCES) as ScoreTerm[]).filter((term) => {
+    const status = options.sources?.[TERM_SOURCES[term]];
+    return (
+      status?.ok === false &&
+      status.applicable &&
+      (term !== "communityContribution" || communityContribution !== null) &&
+      (term !== "releaseContribution" || weights.releases !== 0)
+    );
+  });
 
-  // Normalize to 0–100 scale (score of 120 = max expected healthy activity)
-  const MAX_EXPECTED_SCORE = 120;
-  const normalizedScore = Math.max(0, Math.min(100, (score / MAX_EXPECTED_SCORE) * 100));
+  const score =
+    commitContribution +
+    prContribution -
+    stalePenalty -
+    stalePrPenalty +
+    responsiveness +
+    releaseContribution +
+    (communityContribution ?? 0);
 
-  const state = resolveState(score);
+  // Normalize to 0–100 scale (the profile's max expected healthy activity = 100)
+  const normalizedScore = Math.max(0, Math.min(100, (score / profile.maxExpectedScore) * 100));
+
+  // A repo without a single commit has nothing alive to score
+  const state = metrics.neverCommitted ? "dormant" : resolveState(score, profile);
   const stateConfig = STATE_CONFIGS[state];
 
   // Health percentage accounts for stale debt ratio
@@ -149,45 +275,132 @@ export function computeVitality(metrics: RawMetrics): VitalityReport {
       commitContribution: Math.round(commitContribution * 10) / 10,
       prContribution: Math.round(prContribution * 10) / 10,
       stalePenalty: Math.round(stalePenalty * 10) / 10,
+      stalePrPenalty: Math.round(stalePrPenalty * 10) / 10,
+      responsiveness: Math.round(responsiveness * 10) / 10,
+      releaseContribution: Math.round(releaseContribution * 10) / 10,
+      communityContribution:
+        communityContribution === null ? null : Math.round(communityContribution * 10) / 10,
     },
     stateConfig,
+    profile,
+    provisional,
     trend,
     healthPercentage: Math.round(healthPercentage),
+    flow: computeFlow(metrics),
+    sustainability: computeSustainability(metrics),
   };
 }
 
-function resolveState(score: number): VitalityState {
-  if (score < 0) return "dormant";
-  if (score < 25) return "recovering";
-  if (score < 60) return "stable";
-  if (score < 90) return "thriving";
-  return "supernova";
+// +10 for a median first response within a day, linear down to −10 at a week
+function responseSpeed(medianHours: number | null): number {
+  if (medianHours === null) return 0;
+  const speed = 10 - ((medianHours - 24) / (168 - 24)) * 20;
+  return Math.max(-10, Math.min(10, speed));
 }
 
-// ── MOCK DATA FACTORY (used when no GITHUB_TOKEN is set) ──────────────────────
-export function generateMockMetrics(seed: number = Date.now()): RawMetrics {
-  const random = (min: number, max: number) => {
-    const x = Math.sin(seed++) * 10000;
-    return Math.floor((x - Math.floor(x)) * (max - min + 1)) + min;
-  };
+function releaseTerm(metrics: RawMetrics): number {
+  const { daysSinceLastRelease, releaseMedianIntervalDays } = metrics;
+  if (daysSinceLastRelease === null) return 0;
+
+  const overdueAfter =
+    releaseMedianIntervalDays === null ? 180 : releaseMedianIntervalDays * 2;
+  const overdue = daysSinceLastRelease > overdueAfter ? 5 : 0;
+  return Math.min(metrics.releasesInWindow, 5) * 2 - overdue;
+}
+
+// Bus factor 1 is high risk; 2, or a Gini of 0.6+, is moderate
+function computeSustainability(metrics: RawMetrics): SustainabilityReport {
+  const { busFactor, authorGini, topAuthorShare } = metrics;
+  const risk: SustainabilityReport["risk"] =
+    busFactor === 0
+      ? "unknown"
+      : busFactor === 1
+      ? "high"
+      : busFactor === 2 || (authorGini ?? 0) >= 0.6
+      ? "moderate"
+      : "low";
+
+  const warning =
+    risk === "high"
+      ? `${topAuthorShare}% of recent commits come from one author — bus factor 1.`
+      : risk === "moderate" && busFactor === 2
+      ? "Half of recent commits come from just two authors."
+      : risk === "moderate"
+      ? `Recent commits are unevenly spread (Gini ${authorGini}).`
+      : null;
+
+  return { busFactor, gini: authorGini, topAuthorShare, risk, warning };
+}
 
-  const commits = random(5, 150);
-  const prsMerged = random(2, 60);
-  const totalIssues = random(10, 80);
-  const staleIssues = random(0, Math.floor(totalIssues * 0.6));
+// Median time-to-merge under a day reads as fast, over a week as slow
+function computeFlow(metrics: RawMetrics): FlowReport {
+  const median = metrics.prMedianMergeHours;
+  const rating: FlowReport["rating"] =
+    median === null ? "unknown" : median <= 24 ? "fast" : median <= 168 ? "steady" : "slow";
 
   return {
-    commits,
-    prsMerged,
-    staleIssues,
-    totalIssues,
-    totalStars: random(20, 5000),
-    totalForks: random(5, 800),
-    contributors: random(3, 50),
-    lastCommitDate: new Date(Date.now() - random(0, 7) * 86400000).toISOString(),
+    medianMergeHours: roundHours(median),
+    p90MergeHours: roundHours(metrics.prP90MergeHours),
+    medianFirstReviewHours: roundHours(metrics.prMedianFirstReviewHours),
+    p90FirstReviewHours: roundHours(metrics.prP90FirstReviewHours),
+    rating,
   };
 }
 
+function roundHours(hours: number | null): number | null {
+  return hours === null ? null : Math.round(hours * 10) / 10;
+}
+
+function resolveState(score: number, { thresholds }: ScoringProfile): VitalityState {
+  if (score < thresholds.recovering) return "dormant";
+  if (score < thresholds.stable) return "recovering";
+  if (score < thresholds.thriving) return "stable";
+  if (score < thresholds.supernova) return "thriving";
+  return "supernova";
+}
+
+// ── UTILITY: Breakdown term names ───────────────────────────────────────────
+export const SCORE_TERM_LABELS: Record<ScoreTerm, string> = {
+  commitContribution: "Commits",
+  prContribution: "PRs Merged",
+  stalePenalty: "Stale Issues",
+  stalePrPenalty: "Stale Open PRs",
+  responsiveness: "Responsiveness",
+  releaseContribution: "Releases",
+  communityContribution: "Community",
+};
+
+// ── UTILITY: The profile's formula as text ──────────────────────────────────
+// Full: "V = (Commits × 0.5) + … + Releases"; compact: "V = C×0.5 + … + Rel".
+// Zero-weighted terms are left out.
+export function formatFormula(
+  profile: ScoringProfile,
+  { communityTerm = false, compact = false }: { communityTerm?: boolean; compact?: boolean } = {}
+): string {
+  const { weights } = profile;
+  const weighted = (name: string, short: string, weight: number) =>
+    compact ? `${short}×${weight}` : `(${name} × ${weight})`;
+  const terms: [sign: "+" | "−", text: string, weight: number][] = [
+    ["+", weighted("Commits", "C", weights.commits), weights.commits],
+    ["+", weighted("PR_Merged", "P", weights.prsMerged), weights.prsMerged],
+    ["−", weighted("Stale_Issues", "S", weights.staleIssues), weights.staleIssues],
+    ["−", weighted("Stale_PRs", "SP", weights.stalePRs), weights.stalePRs],
+    ["+", compact ? "R" : "Responsiveness", 1],
+    [
+      "+",
+      weights.releases === 1 ? (compact ? "Rel" : "Releases") : weighted("Releases", "Rel", weights.releases),
+      weights.releases,
+    ],
+  ];
+  if (communityTerm) terms.push(["+", compact ? "Com" : "Community", 1]);
+
+  const text = terms
+    .filter(([, , weight]) => weight !== 0)
+    .map(([sign, term], i) => (i === 0 && sign === "+" ? term : `${sign} ${term}`))
+    .join(" ");
+  return `V = ${text}`;
+}
+
 // ── UTILITY: Format large numbers for display ─────────────────────────────────
 export function formatMetricValue(value: number): string {
   if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(1)}M`;
@@ -195,6 +408,22 @@ export function formatMetricValue(value: number): string {
   return value.toString();
 }
 
+// ── UTILITY: Nearest-rank percentile (null for empty input) ─────────────────
+export function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+// ── UTILITY: Hours → compact duration ("45m", "6.5h", "3.2d") ────────────────
+export function formatDuration(hours: number | null): string {
+  if (hours === null) return "—";
+  if (hours < 1) return `${Math.round(hours * 60)}m`;
+  if (hours < 48) return `${hours.toFixed(1)}h`;
+  return `${(hours / 24).toFixed(1)}d`;
+}
+
 // ── UTILITY: Relative time formatting (Edge-safe, no date-fns) ────────────────
 export function relativeTime(isoDate: string): string {
   const diff = Date.now() - new Date(isoDate).getTime();
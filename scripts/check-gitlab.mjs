@@ -0,0 +1,131 @@
+// FILE: scripts/check-gitlab.mjs
+//
+// Runs the GitLab adapter against the fixture stub and checks the metrics it
+// maps from fixtures/gitlab.
+//
+//   npm run check:gitlab
+//
+// Transpiles lib/gitlab-client.ts and everything it imports into a temp
+// directory with the project's TypeScript, starts scripts/gitlab-stub.mjs on
+// STUB_PORT (default 4011) and calls fetchGitLabDashboardData the way the
+// /gitlab/nexuspulse/platform/fixture-project dashboard does. Exits non-zero
+// on the first mismatch.
+
+import assert from "node:assert/strict";
+import { spawn } from "node:child_process";
+import { copyFile, mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import ts from "typescript";
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), "..");
+const PORT = Number(process.env.STUB_PORT ?? 4011);
+const IMPORT = /(from\s+)"(\.{1,2}\/[^"]+)"/g;
+
+// What fixtures/gitlab maps to. Durations are rounded to whole hours, since
+// the stub's relative timestamps drift by the milliseconds between requests.
+const EXPECTED_METRICS = {
+  commits: 8,
+  prsMerged: 3,
+  prMedianMergeHours: 28,
+  prP90MergeHours: 48,
+  prMedianFirstReviewHours: 8,
+  prP90FirstReviewHours: 24,
+  openPRs: 4,
+  stalePRs: 1,
+  staleIssues: 2,
+  totalIssues: 6,
+  issuesOpened: 4,
+  issuesClosed: 2,
+  issueBacklogGrowth: 2,
+  issueMedianResponseHours: 8,
+  issueP90ResponseHours: 24,
+  daysSinceLastRelease: 15,
+  releasesInWindow: 1,
+  releaseMedianIntervalDays: 29,
+  ciSuccessRate: 60,
+  ciMeanRecoveryHours: 28,
+  ciBrokenStreak: 1,
+  newcomerPRsOpened: 3,
+  newcomerPRsMerged: 1,
+  newcomerPRsAbandoned: 1,
+  newContributors: 1,
+  totalStars: 318,
+  totalForks: 41,
+  contributors: 3,
+  busFactor: 1,
+  authorGini: 0.33,
+  topAuthorShare: 62.5,
+  allTimeContributors: 17,
+};
+
+// Emits lib/<name>.ts as <name>.mjs, following relative imports
+async function transpile(name, outDir, seen = new Set()) {
+  if (seen.has(name)) return;
+  seen.add(name);
+
+  const source = await readFile(join(ROOT, "lib", `${name}.ts`), "utf8");
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022 },
+  });
+
+  const imports = [];
+  const code = outputText.replace(IMPORT, (_, from, path) => {
+    if (path.endsWith(".json")) return `${from}"${path}" with { type: "json" }`;
+    imports.push(path.slice(2));
+    return `${from}"${path}.mjs"`;
+  });
+  await writeFile(join(outDir, "lib", `${name}.mjs`), code);
+  for (const dep of imports) await transpile(dep, outDir, seen);
+}
+
+function startStub() {
+  const stub = spawn(process.execPath, [join(ROOT, "scripts", "gitlab-stub.mjs")], {
+    env: { ...process.env, STUB_PORT: String(PORT) },
+    stdio: ["ignore", "pipe", "inherit"],
+  });
+  return new Promise((resolve, reject) => {
+    stub.stdout.once("data", () => resolve(stub));
+    stub.once("exit", (code) => reject(new Error(`gitlab stub exited with ${code}`)));
+  });
+}
+
+const outDir = await mkdtemp(join(tmpdir(), "nexuspulse-check-"));
+let stub = null;
+
+try {
+  await mkdir(join(outDir, "lib"));
+  await copyFile(join(ROOT, "scoring-profiles.json"), join(outDir, "scoring-profiles.json"));
+  await transpile("gitlab-client", outDir);
+
+  stub = await startStub();
+  process.env.GITLAB_TOKEN = "stub";
+  process.env.GITLAB_API_URL = `http://localhost:${PORT}/api/v4`;
+
+  const { fetchGitLabDashboardData } = await import(
+    pathToFileURL(join(outDir, "lib", "gitlab-client.mjs")).href
+  );
+  const data = await fetchGitLabDashboardData({
+    owner: "nexuspulse/platform",
+    repo: "fixture-project",
+  });
+
+  assert.equal(data.forge, "gitlab");
+  assert.equal(data.isMockData, false);
+  assert.equal(data.repo.isPrivate, false);
+  for (const [source, status] of Object.entries(data.sources)) {
+    assert.ok(status.ok, `source ${source} failed: ${status.error}`);
+  }
+  for (const [metric, expected] of Object.entries(EXPECTED_METRICS)) {
+    const actual = data.metrics[metric];
+    const value = metric.endsWith("Hours") && actual !== null ? Math.round(actual) : actual;
+    assert.equal(value, expected, `metrics.${metric}`);
+  }
+  assert.ok(data.metrics.lastCommitDate, "metrics.lastCommitDate");
+
+  console.log(`[check-gitlab] ${Object.keys(EXPECTED_METRICS).length} metrics match fixtures/gitlab`);
+} finally {
+  stub?.kill();
+  await rm(outDir, { recursive: true, force: true });
+}
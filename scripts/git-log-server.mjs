@@ -0,0 +1,99 @@
+// FILE: scripts/git-log-server.mjs
+//
+// Serves git history from repositories checked out on this machine, for
+// the local provider (/local/<name>). The edge runtime cannot read disk or
+// run git, so this small Node process does it and answers over HTTP.
+//
+//   npm run local-git -- ../my-project /srv/mirrors/other-project
+//   npm run dev
+//   open http://localhost:3000/local/my-project
+//
+// Each repository is served under its directory name. Point the app at a
+// different address with LOCAL_GIT_URL (default http://localhost:4013).
+// Everything stays on this machine — nothing here needs network access.
+
+import { createServer } from "node:http";
+import { execFile } from "node:child_process";
+import { readFile } from "node:fs/promises";
+import { basename, resolve } from "node:path";
+import { promisify } from "node:util";
+
+const PORT = Number(process.env.LOCAL_GIT_PORT ?? 4013);
+const MAX_COMMITS = 1001; // One past the provider's cap, so it can tell truncation
+const MAX_TAGS = 10;
+const DEFAULT_DESCRIPTION = /^Unnamed repository/;
+
+// Field and record separators the provider splits on (lib/local-git-client)
+const LOG_FORMAT = "%H%x1f%an%x1f%ae%x1f%aI%x1f%s%x1e";
+const TAG_FORMAT = "%(refname:short)%1f%(creatordate:iso-strict)%1e";
+
+const run = promisify(execFile);
+
+const repos = new Map();
+for (const dir of process.argv.slice(2)) {
+  const name = basename(resolve(dir));
+  if (repos.has(name)) {
+    console.warn(`[git-log-server] skipping ${dir}: "${name}" is already served`);
+    continue;
+  }
+  repos.set(name, resolve(dir));
+}
+
+if (repos.size === 0) {
+  console.error("usage: node scripts/git-log-server.mjs <repo-dir> [<repo-dir> …]");
+  process.exit(1);
+}
+
+async function git(dir, ...args) {
+  const { stdout } = await run("git", ["-C", dir, ...args], { maxBuffer: 64 * 1024 * 1024 });
+  return stdout;
+}
+
+// .git/description holds placeholder text until someone edits it
+async function readDescription(dir) {
+  const gitDir = resolve(dir, (await git(dir, "rev-parse", "--git-dir")).trim());
+  const text = await readFile(resolve(gitDir, "description"), "utf8").catch(() => "");
+  return text.trim() && !DEFAULT_DESCRIPTION.test(text) ? text.trim() : null;
+}
+
+// Everything the provider needs in one round trip; git output is passed
+// through unparsed
+async function snapshot(name, dir, since) {
+  const [branch, log, latest, authors, tags, description] = await Promise.all([
+    git(dir, "rev-parse", "--abbrev-ref", "HEAD"),
+    git(dir, "log", `--max-count=${MAX_COMMITS}`, `--since=${since}`, `--format=${LOG_FORMAT}`, "HEAD"),
+    git(dir, "log", "-1", "--format=%aI", "HEAD"),
+    git(dir, "shortlog", "-sne", "HEAD"),
+    git(dir, "for-each-ref", "--sort=-creatordate", `--count=${MAX_TAGS}`, `--format=${TAG_FORMAT}`, "refs/tags"),
+    readDescription(dir),
+  ]);
+  return { name, description, defaultBranch: branch.trim(), log, latest: latest.trim() || null, authors, tags };
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url ?? "/", `http://localhost:${PORT}`);
+  const match = url.pathname.match(/^\/repos\/([^/]+)\/?$/);
+  const dir = match && repos.get(decodeURIComponent(match[1]));
+
+  if (req.method === "GET" && dir) {
+    try {
+      const since = url.searchParams.get("since") ?? "30 days ago";
+      const body = await snapshot(decodeURIComponent(match[1]), dir, since);
+      res.writeHead(200, { "content-type": "application/json" });
+      res.end(JSON.stringify(body));
+    } catch (error) {
+      console.error(`[git-log-server] git failed in ${dir}:`, error.message);
+      res.writeHead(500, { "content-type": "application/json" });
+      res.end(JSON.stringify({ message: "git failed (see server log)" }));
+    }
+    return;
+  }
+
+  res.writeHead(404, { "content-type": "application/json" });
+  res.end(JSON.stringify({ message: "Not Found (git-log-server)" }));
+});
+
+server.listen(PORT, () => {
+  console.log(`[git-log-server] listening on http://localhost:${PORT}`);
+  for (const [name, dir] of repos) console.log(`  /local/${name}  →  ${dir}`);
+});
@@ -0,0 +1,101 @@
+// FILE: scripts/gitea-stub.mjs
+//
+// Fixture-backed stand-in for a Gitea / Forgejo instance (API v1).
+//
+//   npm run stub:gitea
+//   GITEA_INSTANCES='{"git.example.com":{"apiUrl":"http://localhost:4012/api/v1","token":"stub"}}' \
+//     npm run dev
+//   open http://localhost:3000/gitea/git.example.com/nexuspulse/fixture-repo
+//
+// Serves fixtures/gitea/*.json for any owner/repo, with the same
+// "{{daysAgo:N}}" / "{{hoursAgo:N}}" placeholders as the other stubs.
+// The repo name "missing" answers 404.
+
+import { createServer } from "node:http";
+import { readFile } from "node:fs/promises";
+import { fileURLToPath } from "node:url";
+import { dirname, join } from "node:path";
+
+const PORT = Number(process.env.STUB_PORT ?? 4012);
+const FIXTURES = join(dirname(fileURLToPath(import.meta.url)), "..", "fixtures", "gitea");
+const HOUR_MS = 60 * 60 * 1000;
+const UNIT_MS = { daysAgo: 24 * HOUR_MS, hoursAgo: HOUR_MS };
+
+async function loadFixture(name) {
+  const raw = await readFile(join(FIXTURES, `${name}.json`), "utf8");
+  return JSON.parse(
+    raw.replace(/\{\{(daysAgo|hoursAgo):(\d+)\}\}/g, (_, unit, amount) =>
+      new Date(Date.now() - Number(amount) * UNIT_MS[unit]).toISOString()
+    )
+  );
+}
+
+// Answers one repo-scoped route; null when the route is not stubbed
+async function route(resource, query) {
+  switch (resource) {
+    case "":
+      return loadFixture("repo");
+    case "commits": {
+      const commits = await loadFixture("commits");
+      return query.get("limit") === "1" ? commits.slice(0, 1) : commits;
+    }
+    case "pulls": {
+      const pulls = await loadFixture("pulls");
+      return query.get("state") === "open" ? pulls.open : pulls.closed;
+    }
+    case "issues": {
+      if (query.get("type") === "pulls") {
+        const pulls = await loadFixture("pull-issues");
+        if (query.has("created_by")) return pulls.closedByAuthor[query.get("created_by")] ?? [];
+        return pulls.window;
+      }
+      const issues = await loadFixture("issues");
+      return query.get("state") === "open" ? issues.open : issues.window;
+    }
+    case "collaborators":
+      return loadFixture("collaborators");
+    case "releases":
+      return (await loadFixture("releases")).releases;
+    case "tags":
+      return (await loadFixture("releases")).tags;
+  }
+
+  const reviews = resource.match(/^pulls\/(\d+)\/reviews$/);
+  if (reviews) return (await loadFixture("pulls")).reviews[reviews[1]] ?? [];
+
+  const timeline = resource.match(/^issues\/(\d+)\/timeline$/);
+  if (timeline) return (await loadFixture("issues")).timelines[timeline[1]] ?? [];
+
+  // Commits without a status answer with an empty combined status, as Gitea does
+  const status = resource.match(/^commits\/([0-9a-f]+)\/status$/);
+  if (status) return (await loadFixture("statuses"))[status[1]] ?? { state: "", statuses: [] };
+
+  return null;
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url ?? "/", `http://localhost:${PORT}`);
+  const match = url.pathname.match(/^\/api\/v1\/repos\/([^/]+)\/([^/]+)\/?(.*)$/);
+
+  if (req.method === "GET" && match) {
+    if (match[2] === "missing") {
+      res.writeHead(404, { "content-type": "application/json" });
+      res.end(JSON.stringify({ message: "The target couldn't be found.", errors: [] }));
+      return;
+    }
+
+    const body = await route(match[3], url.searchParams);
+    if (body !== null) {
+      res.writeHead(200, { "content-type": "application/json" });
+      res.end(JSON.stringify(body));
+      return;
+    }
+  }
+
+  res.writeHead(404, { "content-type": "application/json" });
+  res.end(JSON.stringify({ message: "Not Found (gitea stub)" }));
+});
+
+server.listen(PORT, () => {
+  console.log(`[gitea-stub] listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,136 @@
+// FILE: scripts/github-app-stub.mjs
+//
+// Stand-in for GitHub's App endpoints, in front of another stub.
+//
+//   openssl genrsa -traditional -out app.pem 2048
+//   npm run stub:graphql
+//   GITHUB_APP_ID=1 GITHUB_APP_PRIVATE_KEY="$(cat app.pem)" npm run stub:app
+//   GITHUB_APP_ID=1 GITHUB_APP_PRIVATE_KEY="$(cat app.pem)" \
+//     GITHUB_API_URL=http://localhost:4015 npm run dev
+//
+// Answers the installation lookup and the token exchange itself, checking
+// the app JWT's RS256 signature, issuer and lifetime against the same key.
+// Every other request must carry an unexpired installation token and is
+// forwarded to GITHUB_UPSTREAM_URL (the GraphQL stub by default).
+// The owner "uninstalled" has no installation. STUB_TOKEN_TTL (seconds,
+// default 3600) shortens token lifetime to exercise refreshing.
+
+import { createServer } from "node:http";
+import { createHash, createPublicKey, randomBytes, verify } from "node:crypto";
+
+const PORT = Number(process.env.STUB_PORT ?? 4015);
+const UPSTREAM = (process.env.GITHUB_UPSTREAM_URL ?? "http://localhost:4010").replace(/\/$/, "");
+const APP_ID = process.env.GITHUB_APP_ID;
+const TOKEN_TTL_SECONDS = Number(process.env.STUB_TOKEN_TTL ?? 3600);
+const MAX_JWT_LIFETIME_SECONDS = 10 * 60;
+
+if (!APP_ID || !process.env.GITHUB_APP_PRIVATE_KEY) {
+  console.error("usage: GITHUB_APP_ID=… GITHUB_APP_PRIVATE_KEY=… node scripts/github-app-stub.mjs");
+  process.exit(1);
+}
+const PUBLIC_KEY = createPublicKey(process.env.GITHUB_APP_PRIVATE_KEY.replace(/\\n/g, "\n"));
+
+const issued = new Map(); // token → { installationId, expiresAt }
+
+function send(res, status, body) {
+  res.writeHead(status, { "content-type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function bearer(req) {
+  return (req.headers.authorization ?? "").replace(/^Bearer\s+/i, "");
+}
+
+// Why the JWT is unacceptable, or null when it is fine
+function checkJwt(jwt) {
+  const [header, payload, signature] = jwt.split(".");
+  if (!signature) return "not a JWT";
+  const signed = verify(
+    "RSA-SHA256",
+    Buffer.from(`${header}.${payload}`),
+    PUBLIC_KEY,
+    Buffer.from(signature, "base64url")
+  );
+  if (!signed) return "bad signature";
+
+  const claims = JSON.parse(Buffer.from(payload, "base64url").toString());
+  const now = Math.floor(Date.now() / 1000);
+  if (String(claims.iss) !== String(APP_ID)) return `issuer ${claims.iss} is not app ${APP_ID}`;
+  if (claims.iat > now + 60) return "issued in the future";
+  if (claims.exp <= now) return "expired";
+  if (claims.exp - claims.iat > MAX_JWT_LIFETIME_SECONDS) return "lifetime over 10 minutes";
+  return null;
+}
+
+function installationId(owner) {
+  return parseInt(createHash("sha1").update(owner.toLowerCase()).digest("hex").slice(0, 6), 16);
+}
+
+async function forward(req, res, url) {
+  const body = req.method === "GET" || req.method === "HEAD" ? undefined : await readBody(req);
+  const headers = { ...req.headers };
+  delete headers.host;
+  const upstream = await fetch(`${UPSTREAM}${url.pathname}${url.search}`, {
+    method: req.method,
+    headers,
+    body,
+  });
+  const out = {};
+  for (const [name, value] of upstream.headers) {
+    if (name === "content-encoding" || name === "content-length" || name === "transfer-encoding") continue;
+    out[name] = name === "link" ? value.split(UPSTREAM).join(`http://localhost:${PORT}`) : value;
+  }
+  res.writeHead(upstream.status, out);
+  res.end(Buffer.from(await upstream.arrayBuffer()));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url ?? "/", `http://localhost:${PORT}`);
+  const lookup = url.pathname.match(/^\/repos\/([^/]+)\/([^/]+)\/installation$/);
+  const exchange = url.pathname.match(/^\/app\/installations\/(\d+)\/access_tokens$/);
+
+  if ((req.method === "GET" && lookup) || (req.method === "POST" && exchange)) {
+    const problem = checkJwt(bearer(req));
+    if (problem) {
+      console.warn(`[github-app-stub] rejected JWT: ${problem}`);
+      return send(res, 401, { message: `A JSON web token could not be decoded (${problem})` });
+    }
+
+    if (lookup) {
+      const owner = decodeURIComponent(lookup[1]);
+      if (owner.toLowerCase() === "uninstalled") return send(res, 404, { message: "Not Found" });
+      return send(res, 200, { id: installationId(owner), account: { login: owner } });
+    }
+
+    const token = `ghs_stub${randomBytes(12).toString("hex")}`;
+    const expiresAt = new Date(Date.now() + TOKEN_TTL_SECONDS * 1000).toISOString();
+    issued.set(token, { installationId: Number(exchange[1]), expiresAt });
+    console.log(`[github-app-stub] issued token for installation ${exchange[1]} until ${expiresAt}`);
+    return send(res, 201, { token, expires_at: expiresAt, permissions: { contents: "read" } });
+  }
+
+  const grant = issued.get(bearer(req));
+  if (!grant || Date.parse(grant.expiresAt) <= Date.now()) {
+    return send(res, 401, { message: "Bad credentials (github-app-stub)" });
+  }
+
+  try {
+    await forward(req, res, url);
+  } catch (error) {
+    console.error("[github-app-stub] upstream failed:", error.message);
+    send(res, 502, { message: "Upstream request failed (github-app-stub)" });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`[github-app-stub] listening on http://localhost:${PORT} → ${UPSTREAM}`);
+});
@@ -0,0 +1,156 @@
+// FILE: scripts/github-recorder.mjs
+//
+// Record-and-replay proxy for the GitHub API, selected with GITHUB_FIXTURES.
+//
+//   GITHUB_FIXTURES=record npm run fixtures -- fixtures/recorded/next.js
+//   GITHUB_TOKEN=<real token> GITHUB_API_URL=http://localhost:4014 npm run dev
+//   open http://localhost:3000/vercel/next.js       (every ghFetch call is captured)
+//
+//   GITHUB_FIXTURES=replay npm run fixtures -- fixtures/recorded/next.js
+//   GITHUB_TOKEN=replay GITHUB_API_URL=http://localhost:4014 npm run dev
+//
+// Record forwards each request to GITHUB_UPSTREAM_URL (api.github.com) and
+// writes one JSON file per exchange: the request, then the response status,
+// headers and body. The Authorization header is forwarded but never written.
+// Replay answers from those files only and needs no network or token.
+//
+// Requests are matched on method, path and body with dates and timestamps
+// blanked out, so the window's moving `since` still matches. Replayed timestamps
+// are shifted by the time elapsed since recording, which keeps the captured
+// activity inside the 30-day window. Unrecorded requests answer 404.
+
+import { createServer } from "node:http";
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { join, resolve } from "node:path";
+
+const MODE = process.env.GITHUB_FIXTURES;
+const PORT = Number(process.env.RECORDER_PORT ?? 4014);
+const UPSTREAM = (process.env.GITHUB_UPSTREAM_URL ?? "https://api.github.com").replace(/\/$/, "");
+const DIR = resolve(process.argv[2] ?? "fixtures/recorded");
+const ORIGIN = `http://localhost:${PORT}`;
+
+const ISO_TIMESTAMP = /\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:\d{2})/g;
+const ISO_DATE = /\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:\d{2}))?/g;
+const FORWARDED_HEADERS = ["authorization", "accept", "content-type", "user-agent", "x-github-api-version"];
+// Bodies are stored decoded, and recordings must not pin cookies
+const DROPPED_HEADERS = new Set(["content-encoding", "content-length", "transfer-encoding", "connection", "set-cookie"]);
+
+if (MODE !== "record" && MODE !== "replay") {
+  console.error("usage: GITHUB_FIXTURES=record|replay node scripts/github-recorder.mjs [fixture-dir]");
+  process.exit(1);
+}
+
+// ── MATCHING ──────────────────────────────────────────────────────────────────
+function normalize(text) {
+  return text.replace(ISO_DATE, "{time}");
+}
+
+function fixturePath(method, path, body) {
+  const key = `${method} ${normalize(path)}\n${normalize(body)}`;
+  const hash = createHash("sha1").update(key).digest("hex").slice(0, 10);
+  const slug = path.split("?")[0].replace(/[^a-z0-9]+/gi, "-").replace(/^-|-$/g, "").slice(0, 80);
+  return join(DIR, `${method.toLowerCase()}-${slug}-${hash}.json`);
+}
+
+// ── REWRITING ─────────────────────────────────────────────────────────────────
+// Pagination links point back at this proxy, whichever mode recorded them
+function rewriteHeaders(headers, shiftMs) {
+  const out = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (DROPPED_HEADERS.has(name)) continue;
+    if (name === "link") out[name] = value.split(UPSTREAM).join(ORIGIN);
+    else if (name === "x-ratelimit-reset") out[name] = String(Number(value) + Math.round(shiftMs / 1000));
+    else out[name] = value;
+  }
+  return out;
+}
+
+function shiftTimestamps(text, shiftMs) {
+  if (shiftMs === 0) return text;
+  return text.replace(ISO_TIMESTAMP, (stamp) => new Date(Date.parse(stamp) + shiftMs).toISOString());
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+}
+
+// ── MODES ─────────────────────────────────────────────────────────────────────
+async function record(req, path, body) {
+  const headers = {};
+  for (const name of FORWARDED_HEADERS) {
+    if (req.headers[name]) headers[name] = req.headers[name];
+  }
+  // No If-None-Match: a 304 would leave nothing to record
+
+  const upstream = await fetch(`${UPSTREAM}${path}`, {
+    method: req.method,
+    headers,
+    body: req.method === "GET" || req.method === "HEAD" ? undefined : body,
+  });
+  const text = await upstream.text();
+  let parsed;
+  try {
+    parsed = text ? JSON.parse(text) : null;
+  } catch {
+    parsed = text;
+  }
+
+  const exchange = {
+    recordedAt: new Date().toISOString(),
+    request: { method: req.method, path, body: body ? JSON.parse(body) : null },
+    response: {
+      status: upstream.status,
+      headers: Object.fromEntries(upstream.headers),
+      body: parsed,
+    },
+  };
+  await writeFile(fixturePath(req.method, path, body), JSON.stringify(exchange, null, 2));
+  console.log(`[github-recorder] ${upstream.status} ${req.method} ${path}`);
+  return { status: upstream.status, headers: rewriteHeaders(exchange.response.headers, 0), text };
+}
+
+async function replay(req, path, body) {
+  let exchange;
+  try {
+    exchange = JSON.parse(await readFile(fixturePath(req.method, path, body), "utf8"));
+  } catch {
+    console.warn(`[github-recorder] not recorded: ${req.method} ${path}`);
+    return {
+      status: 404,
+      headers: { "content-type": "application/json" },
+      text: JSON.stringify({ message: "Not recorded (github-recorder)" }),
+    };
+  }
+
+  const shiftMs = Date.now() - Date.parse(exchange.recordedAt);
+  const { status, headers, body: stored } = exchange.response;
+  const text = stored === null ? "" : typeof stored === "string" ? stored : JSON.stringify(stored);
+  return { status, headers: rewriteHeaders(headers, shiftMs), text: shiftTimestamps(text, shiftMs) };
+}
+
+// ── SERVER ────────────────────────────────────────────────────────────────────
+await mkdir(DIR, { recursive: true });
+
+const server = createServer(async (req, res) => {
+  try {
+    const path = req.url ?? "/";
+    const body = await readBody(req);
+    const answer = await (MODE === "record" ? record(req, path, body) : replay(req, path, body));
+    res.writeHead(answer.status, answer.headers);
+    res.end(answer.text);
+  } catch (error) {
+    console.error("[github-recorder] request failed:", error);
+    res.writeHead(502, { "content-type": "application/json" });
+    res.end(JSON.stringify({ message: "Upstream request failed (github-recorder)" }));
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`[github-recorder] ${MODE}ing ${DIR} on ${ORIGIN}`);
+});
@@ -0,0 +1,124 @@
+// FILE: scripts/gitlab-stub.mjs
+//
+// Fixture-backed stand-in for the GitLab REST v4 API.
+//
+//   npm run stub:gitlab
+//   GITLAB_TOKEN=stub GITLAB_API_URL=http://localhost:4011/api/v4 npm run dev
+//   open http://localhost:3000/gitlab/nexuspulse/platform/fixture-project
+//
+// Serves fixtures/gitlab/*.json for any project path, with the same
+// "{{daysAgo:N}}" / "{{hoursAgo:N}}" placeholders as the GraphQL stub.
+// A project whose last path segment is "missing" answers 404.
+
+import { createServer } from "node:http";
+import { readFile } from "node:fs/promises";
+import { fileURLToPath } from "node:url";
+import { dirname, join } from "node:path";
+
+const PORT = Number(process.env.STUB_PORT ?? 4011);
+const FIXTURES = join(dirname(fileURLToPath(import.meta.url)), "..", "fixtures", "gitlab");
+const HOUR_MS = 60 * 60 * 1000;
+const UNIT_MS = { daysAgo: 24 * HOUR_MS, hoursAgo: HOUR_MS };
+
+async function loadFixture(name) {
+  const raw = await readFile(join(FIXTURES, `${name}.json`), "utf8");
+  return JSON.parse(
+    raw.replace(/\{\{(daysAgo|hoursAgo):(\d+)\}\}/g, (_, unit, amount) =>
+      new Date(Date.now() - Number(amount) * UNIT_MS[unit]).toISOString()
+    )
+  );
+}
+
+// GitLab's quota headers carry no X- prefix
+function rateLimitHeaders() {
+  return {
+    "ratelimit-limit": "2000",
+    "ratelimit-remaining": "1999",
+    "ratelimit-observed": "1",
+    "ratelimit-reset": String(Math.floor(Date.now() / 1000) + 60),
+  };
+}
+
+function send(res, body, headers = {}) {
+  res.writeHead(200, { "content-type": "application/json", ...rateLimitHeaders(), ...headers });
+  res.end(JSON.stringify(body));
+}
+
+// Answers one project-scoped route; null when the route is not stubbed
+async function route(resource, query) {
+  switch (resource) {
+    case "":
+      return loadFixture("project");
+    case "repository/commits": {
+      const commits = await loadFixture("commits");
+      return query.get("per_page") === "1" ? commits.slice(0, 1) : commits;
+    }
+    case "merge_requests": {
+      const mrs = await loadFixture("merge-requests");
+      if (query.has("author_username")) return mrs.earlierMerged[query.get("author_username")] ?? [];
+      if (query.get("state") === "all") return mrs.window;
+      return query.get("state") === "opened" ? mrs.opened : mrs.merged;
+    }
+    case "issues": {
+      const issues = await loadFixture("issues");
+      return query.get("state") === "opened" ? issues.opened : issues.window;
+    }
+    case "members/all":
+      return loadFixture("members");
+    case "releases":
+      return (await loadFixture("releases")).releases;
+    case "repository/tags":
+      return (await loadFixture("releases")).tags;
+    case "pipelines":
+      return loadFixture("pipelines");
+  }
+
+  const mr = resource.match(/^merge_requests\/(\d+)\/(notes|approvals)$/);
+  if (mr) {
+    const reviews = await loadFixture("mr-reviews");
+    return reviews[mr[2]][mr[1]] ?? (mr[2] === "notes" ? [] : { approved: false, approved_by: [] });
+  }
+
+  const issue = resource.match(/^issues\/(\d+)\/(notes|resource_label_events|resource_state_events)$/);
+  if (issue) {
+    const activity = await loadFixture("issue-activity");
+    return activity[issue[1]]?.[issue[2]] ?? [];
+  }
+
+  return null;
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url ?? "/", `http://localhost:${PORT}`);
+  // The project path arrives URL-encoded as a single segment: group%2Fsub%2Fproject
+  const match = url.pathname.match(/^\/api\/v4\/projects\/([^/]+)\/?(.*)$/);
+
+  if (req.method === "GET" && match) {
+    const projectPath = decodeURIComponent(match[1]);
+
+    if (projectPath.split("/").pop() === "missing") {
+      res.writeHead(404, { "content-type": "application/json", ...rateLimitHeaders() });
+      res.end(JSON.stringify({ message: "404 Project Not Found" }));
+      return;
+    }
+
+    // Contributors are counted from the X-Total header alone
+    if (match[2] === "repository/contributors") {
+      send(res, [{ name: "Alice Maintainer", commits: 512 }], { "x-total": "17" });
+      return;
+    }
+
+    const body = await route(match[2], url.searchParams);
+    if (body !== null) {
+      send(res, body);
+      return;
+    }
+  }
+
+  res.writeHead(404, { "content-type": "application/json" });
+  res.end(JSON.stringify({ message: "404 Not Found (gitlab stub)" }));
+});
+
+server.listen(PORT, () => {
+  console.log(`[gitlab-stub] listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,120 @@
+// FILE: scripts/graphql-stub.mjs
+//
+// Fixture-backed stand-in for the GitHub GraphQL endpoint.
+//
+//   npm run stub:graphql
+//   GITHUB_TOKEN=stub GITHUB_DATA_BACKEND=graphql \
+//     GITHUB_API_URL=http://localhost:4010 npm run dev
+//
+// Serves fixtures/graphql/*.json, rewriting "{{daysAgo:N}}" and
+// "{{hoursAgo:N}}" placeholders to ISO timestamps so the fixture always lands
+// inside the 30-day window.
+// The repo name "missing" answers with a NOT_FOUND error.
+
+import { createServer } from "node:http";
+import { readFile } from "node:fs/promises";
+import { fileURLToPath } from "node:url";
+import { dirname, join } from "node:path";
+
+const PORT = Number(process.env.STUB_PORT ?? 4010);
+const FIXTURES = join(dirname(fileURLToPath(import.meta.url)), "..", "fixtures", "graphql");
+const HOUR_MS = 60 * 60 * 1000;
+const UNIT_MS = { daysAgo: 24 * HOUR_MS, hoursAgo: HOUR_MS };
+
+async function loadFixture(name) {
+  const raw = await readFile(join(FIXTURES, `${name}.json`), "utf8");
+  return raw.replace(/\{\{(daysAgo|hoursAgo):(\d+)\}\}/g, (_, unit, amount) =>
+    new Date(Date.now() - Number(amount) * UNIT_MS[unit]).toISOString()
+  );
+}
+
+function rateLimitHeaders(resource) {
+  return {
+    "x-ratelimit-limit": "5000",
+    "x-ratelimit-remaining": "4999",
+    "x-ratelimit-used": "1",
+    "x-ratelimit-reset": String(Math.floor(Date.now() / 1000) + 3600),
+    "x-ratelimit-resource": resource,
+  };
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url ?? "/", `http://localhost:${PORT}`);
+
+  if (req.method === "POST" && url.pathname === "/graphql") {
+    const { query = "", variables = {} } = JSON.parse((await readBody(req)) || "{}");
+
+    if (variables.name === "missing") {
+      res.writeHead(200, { "content-type": "application/json", ...rateLimitHeaders("graphql") });
+      res.end(JSON.stringify({
+        data: { repository: null },
+        errors: [{ type: "NOT_FOUND", message: `Could not resolve to a Repository with the name '${variables.owner}/missing'.` }],
+      }));
+      return;
+    }
+
+    const fixture = query.includes("query CommitPage")
+      ? "commit-page"
+      : query.includes("query MergedPRPage")
+      ? "merged-pr-page"
+      : "dashboard";
+    res.writeHead(200, { "content-type": "application/json", ...rateLimitHeaders("graphql") });
+    res.end(await loadFixture(fixture));
+    return;
+  }
+
+  // Contributors stay on REST in both backends: answer with a Link header
+  // whose last page is the all-time contributor count.
+  const contributors = url.pathname.match(/^\/repos\/([^/]+)\/([^/]+)\/contributors$/);
+  if (req.method === "GET" && contributors) {
+    const last = `http://localhost:${PORT}${url.pathname}?per_page=1&anon=false&page=42`;
+    res.writeHead(200, {
+      "content-type": "application/json",
+      link: `<${last}>; rel="last"`,
+      ...rateLimitHeaders("core"),
+    });
+    res.end(JSON.stringify([{ login: "alice", contributions: 120 }]));
+    return;
+  }
+
+  // Actions runs have no GraphQL equivalent either
+  const runs = url.pathname.match(/^\/repos\/([^/]+)\/([^/]+)\/actions\/runs$/);
+  if (req.method === "GET" && runs) {
+    res.writeHead(200, { "content-type": "application/json", ...rateLimitHeaders("core") });
+    res.end(await loadFixture("workflow-runs"));
+    return;
+  }
+
+  // Newcomer detection lists the window's PRs, then checks each merged
+  // author for commits from before the window
+  const pulls = url.pathname.match(/^\/repos\/([^/]+)\/([^/]+)\/pulls$/);
+  if (req.method === "GET" && pulls) {
+    res.writeHead(200, { "content-type": "application/json", ...rateLimitHeaders("core") });
+    res.end(await loadFixture("window-pulls"));
+    return;
+  }
+
+  const commits = url.pathname.match(/^\/repos\/([^/]+)\/([^/]+)\/commits$/);
+  if (req.method === "GET" && commits && url.searchParams.has("author")) {
+    const earlier = JSON.parse(await loadFixture("earlier-commits"));
+    res.writeHead(200, { "content-type": "application/json", ...rateLimitHeaders("core") });
+    res.end(JSON.stringify(earlier[url.searchParams.get("author")] ?? []));
+    return;
+  }
+
+  res.writeHead(404, { "content-type": "application/json" });
+  res.end(JSON.stringify({ message: "Not Found (graphql stub)" }));
+});
+
+server.listen(PORT, () => {
+  console.log(`[graphql-stub] listening on http://localhost:${PORT}`);
+});
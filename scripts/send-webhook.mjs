@@ -0,0 +1,55 @@
+// FILE: scripts/send-webhook.mjs
+//
+// Posts a recorded GitHub webhook delivery to the running app, signed the
+// way GitHub signs it.
+//
+//   GITHUB_WEBHOOK_SECRET=dev npm run dev
+//   GITHUB_WEBHOOK_SECRET=dev npm run webhook -- push vercel/next.js
+//
+// The event name picks fixtures/webhooks/<event>.json (push, pull_request,
+// issues, release, ping); an optional owner/repo replaces the fixture's
+// repository. WEBHOOK_URL overrides http://localhost:3000/api/webhooks/github.
+// BAD_SIGNATURE=1 signs with the wrong secret, to see the rejection.
+
+import { createHmac, randomUUID } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { fileURLToPath } from "node:url";
+import { dirname, join } from "node:path";
+
+const ENDPOINT = process.env.WEBHOOK_URL ?? "http://localhost:3000/api/webhooks/github";
+const SECRET = process.env.GITHUB_WEBHOOK_SECRET;
+const FIXTURES = join(dirname(fileURLToPath(import.meta.url)), "..", "fixtures", "webhooks");
+
+const [event, target] = process.argv.slice(2);
+if (!event || !SECRET) {
+  console.error("usage: GITHUB_WEBHOOK_SECRET=… node scripts/send-webhook.mjs <event> [owner/repo]");
+  process.exit(1);
+}
+
+const payload = JSON.parse(await readFile(join(FIXTURES, `${event}.json`), "utf8"));
+if (target) {
+  const [owner, repo] = target.split("/");
+  payload.repository = {
+    ...payload.repository,
+    name: repo,
+    full_name: `${owner}/${repo}`,
+    owner: { ...payload.repository.owner, login: owner },
+  };
+}
+
+const body = JSON.stringify(payload);
+const key = process.env.BAD_SIGNATURE ? `${SECRET}-wrong` : SECRET;
+const signature = `sha256=${createHmac("sha256", key).update(body).digest("hex")}`;
+
+const res = await fetch(ENDPOINT, {
+  method: "POST",
+  headers: {
+    "content-type": "application/json",
+    "user-agent": "GitHub-Hookshot/send-webhook",
+    "x-github-event": event,
+    "x-github-delivery": randomUUID(),
+    "x-hub-signature-256": signature,
+  },
+  body,
+});
+console.log(`${res.status} ${await res.text()}`);